@@ -0,0 +1,106 @@
+// ===== BACKOFF =====
+
+/**
+ * Custom backoff, returns the delay in milliseconds before the next attempt
+ */
+export type BackoffFunction = (attempt: number, prevDelay: number) => number;
+
+export type BackoffType =
+  | 'fixed' // Always `base`
+  | 'linear' // base, base * factor, base * (2 * factor - 1), ...
+  | 'exponential' // base, base * factor, base * factor^2, ...
+  | 'fibonacci' // base, base, 2 * base, 3 * base, 5 * base, ...
+  | 'decorrelated' // Random between base and 3 times the previous delay
+  | BackoffFunction;
+
+export type JitterType =
+  | 'full' // Random between 0 and the delay
+  | 'equal' // Random between half the delay and the delay
+  | 'spread'; // Random within ±15% of the delay
+
+export interface BackoffOptions {
+  type: BackoffType;
+  base: number; // First delay in milliseconds
+  factor?: number; // Growth factor for linear and exponential backoff (default 2)
+  maxDelay?: number; // Cap applied before jitter
+  jitter?: JitterType;
+}
+
+function fibonacci(n: number): number {
+  let previous = 0;
+  let current = 1;
+  for (let i = 1; i < n; i++) {
+    [previous, current] = [current, previous + current];
+  }
+  return current;
+}
+
+/**
+ * Randomizes a delay so that many clients backing off together don't retry in lockstep
+ * @param delay The delay in milliseconds
+ * @param jitter How to randomize it
+ */
+export function applyJitter(delay: number, jitter: JitterType): number {
+  switch (jitter) {
+    case 'full':
+      return Math.random() * delay;
+    case 'equal':
+      return delay / 2 + (Math.random() * delay) / 2;
+    case 'spread': {
+      const range = delay * 0.15;
+      return delay + Math.random() * range * 2 - range;
+    }
+    default:
+      return delay;
+  }
+}
+
+/**
+ * Computes the delay before the next attempt
+ * @param options The backoff algorithm and its parameters
+ * @param attempt 1-based number of the attempt that just finished
+ * @param prevDelay The previous delay, used by decorrelated and custom backoff (default `base`)
+ * @returns The delay in milliseconds
+ */
+export function computeBackoff(
+  options: BackoffOptions,
+  attempt: number,
+  prevDelay: number = options.base
+): number {
+  const { type, base, factor = 2, maxDelay = Infinity } = options;
+  const step = Math.max(0, attempt - 1);
+
+  let delay: number;
+
+  if (typeof type === 'function') {
+    delay = type(attempt, prevDelay);
+  } else {
+    switch (type) {
+      case 'linear':
+        delay = base + base * (factor - 1) * step;
+        break;
+      case 'exponential':
+        delay = base * Math.pow(factor, step);
+        break;
+      case 'fibonacci':
+        delay = base * fibonacci(step + 1);
+        break;
+      case 'decorrelated': {
+        const upper = Math.max(base, prevDelay * 3);
+        delay = base + Math.random() * (upper - base);
+        break;
+      }
+      case 'fixed':
+      default:
+        delay = base;
+    }
+  }
+
+  delay = Math.min(delay, maxDelay);
+
+  if (options.jitter) {
+    delay = applyJitter(delay, options.jitter);
+  }
+
+  return Math.max(0, delay);
+}
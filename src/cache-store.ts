@@ -0,0 +1,491 @@
+import { lru } from 'tiny-lru';
+
+// ===== CACHE STORES =====
+
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Storage backend used by `createAsyncCache`. Every method may answer synchronously
+ * or return a promise, so the same interface covers in-memory maps and remote stores.
+ */
+export interface CacheStore<V> {
+  get: (key: string) => MaybePromise<V | undefined>;
+  set: (key: string, value: V) => MaybePromise<void>;
+  delete: (key: string) => MaybePromise<boolean>; // Returns whether the key existed
+  keys: () => MaybePromise<string[]>;
+  clear: () => MaybePromise<void>;
+  has?: (key: string) => MaybePromise<boolean>; // Falls back to `get` when omitted
+  peek?: (key: string) => MaybePromise<V | undefined>; // Read without counting as a use for eviction, falls back to `get` when omitted
+  size?: () => MaybePromise<number>; // Falls back to `keys().length` when omitted
+  onEvict?: (listener: StoreEvictListener<V>) => () => void; // Subscribe to entries the store drops on its own (e.g. capacity)
+}
+
+export type StoreEvictListener<V> = (key: string, value: V) => void;
+
+/**
+ * Converts cached values to and from a form that survives serialization (e.g. JSON)
+ */
+export interface CacheSerializer<T> {
+  serialize: (value: T, key: string) => unknown;
+  deserialize: (data: unknown, key: string) => T;
+}
+
+/**
+ * A store whose methods all answer synchronously, which keeps the cache management
+ * methods (`get`, `has`, `size`, ...) synchronous as well
+ */
+export interface SyncCacheStore<V> extends CacheStore<V> {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V) => void;
+  delete: (key: string) => boolean;
+  keys: () => string[];
+  clear: () => void;
+  has?: (key: string) => boolean;
+  peek?: (key: string) => V | undefined;
+  size?: () => number;
+}
+
+export interface LruStoreOptions {
+  maxSize?: number; // Maximum number of items before the least recently used one is evicted
+}
+
+/**
+ * Creates an in-memory store with LRU eviction backed by tiny-lru.
+ * This is the default store of `createAsyncCache`.
+ * @param options Store configuration options
+ * @returns A synchronous cache store
+ */
+export function createLruStore<V = any>(options: LruStoreOptions = {}): SyncCacheStore<V> {
+  const cache = lru<V>(options.maxSize ?? 1000);
+  const listeners = new Set<StoreEvictListener<V>>();
+
+  return {
+    get: (key) => cache.get(key), // Updates LRU order
+    // tiny-lru keeps { value } nodes in `items`, reading them directly leaves the order alone
+    peek: (key) => (cache.items[key] as unknown as { value: V } | undefined)?.value,
+    set: (key, value) => {
+      // tiny-lru silently drops its first (least recently used) item when a new key doesn't fit
+      const evicted =
+        listeners.size > 0 && !cache.has(key) && cache.max > 0 && cache.size >= cache.max
+          ? (cache.first as unknown as { key: string; value: V } | null)
+          : null;
+      cache.set(key, value);
+      if (evicted) {
+        for (const listener of listeners) listener(evicted.key, evicted.value);
+      }
+    },
+    delete: (key) => {
+      const existed = cache.has(key);
+      cache.delete(key); // tiny-lru delete returns the instance, not boolean
+      return existed;
+    },
+    keys: () => cache.keys(),
+    clear: () => {
+      cache.clear();
+    },
+    has: (key) => cache.has(key),
+    size: () => cache.size,
+    onEvict: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Creates an unbounded store on top of a `Map`. Handy for tests, since the map
+ * can be passed in and inspected directly.
+ * @param map Optional map to use as the backing storage
+ * @returns A synchronous cache store
+ */
+export function createMapStore<V = any>(map: Map<string, V> = new Map()): SyncCacheStore<V> {
+  return {
+    get: (key) => map.get(key),
+    set: (key, value) => {
+      map.set(key, value);
+    },
+    delete: (key) => map.delete(key),
+    keys: () => Array.from(map.keys()),
+    clear: () => map.clear(),
+    has: (key) => map.has(key),
+    size: () => map.size,
+  };
+}
+
+export interface FifoStoreOptions {
+  maxSize?: number; // Maximum number of items before the oldest one is evicted (at least 1)
+}
+
+/**
+ * Creates an in-memory store that evicts items in insertion order, regardless of
+ * how often or how recently they were read
+ * @param options Store configuration options
+ * @returns A synchronous cache store
+ */
+export function createFifoStore<V = any>(options: FifoStoreOptions = {}): SyncCacheStore<V> {
+  const maxSize = Math.max(1, options.maxSize ?? 1000);
+  const map = new Map<string, V>();
+  const listeners = new Set<StoreEvictListener<V>>();
+
+  return {
+    get: (key) => map.get(key),
+    set: (key, value) => {
+      if (!map.has(key) && map.size >= maxSize) {
+        const [oldestKey, oldest] = map.entries().next().value as [string, V];
+        map.delete(oldestKey);
+        for (const listener of listeners) listener(oldestKey, oldest);
+      }
+      map.set(key, value); // Overwrites keep their position
+    },
+    delete: (key) => map.delete(key),
+    keys: () => Array.from(map.keys()),
+    clear: () => map.clear(),
+    has: (key) => map.has(key),
+    size: () => map.size,
+    onEvict: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export interface LfuStoreOptions {
+  maxSize?: number; // Maximum number of items before the least frequently used one is evicted (at least 1)
+}
+
+/**
+ * Creates an in-memory store that evicts the least frequently used item, breaking
+ * ties by evicting the one that was used least recently. Frequently read items
+ * survive scans that would flush an LRU store.
+ * @param options Store configuration options
+ * @returns A synchronous cache store
+ */
+export function createLfuStore<V = any>(options: LfuStoreOptions = {}): SyncCacheStore<V> {
+  const maxSize = Math.max(1, options.maxSize ?? 1000);
+  const values = new Map<string, V>();
+  const counts = new Map<string, number>();
+  // Keys grouped by use count, each group in least recently used order
+  const buckets = new Map<number, Set<string>>();
+  const listeners = new Set<StoreEvictListener<V>>();
+
+  function removeFromBucket(key: string, count: number) {
+    const bucket = buckets.get(count)!;
+    bucket.delete(key);
+    if (bucket.size === 0) buckets.delete(count);
+  }
+
+  function addToBucket(key: string, count: number) {
+    let bucket = buckets.get(count);
+    if (!bucket) {
+      bucket = new Set();
+      buckets.set(count, bucket);
+    }
+    bucket.add(key);
+  }
+
+  function touch(key: string) {
+    const count = counts.get(key)!;
+    removeFromBucket(key, count);
+    counts.set(key, count + 1);
+    addToBucket(key, count + 1);
+  }
+
+  function remove(key: string): boolean {
+    const count = counts.get(key);
+    if (count === undefined) return false;
+    removeFromBucket(key, count);
+    counts.delete(key);
+    values.delete(key);
+    return true;
+  }
+
+  // Keys from the first to the last to be evicted
+  function orderedKeys(): string[] {
+    return Array.from(buckets.keys())
+      .sort((a, b) => a - b)
+      .flatMap((count) => Array.from(buckets.get(count)!));
+  }
+
+  return {
+    get: (key) => {
+      if (!values.has(key)) return undefined;
+      touch(key);
+      return values.get(key);
+    },
+    peek: (key) => values.get(key),
+    set: (key, value) => {
+      if (values.has(key)) {
+        touch(key);
+      } else {
+        if (values.size >= maxSize) {
+          const lowest = Math.min(...buckets.keys());
+          const evictedKey = buckets.get(lowest)!.values().next().value as string;
+          const evicted = values.get(evictedKey) as V;
+          remove(evictedKey);
+          for (const listener of listeners) listener(evictedKey, evicted);
+        }
+        counts.set(key, 1);
+        addToBucket(key, 1);
+      }
+      values.set(key, value);
+    },
+    delete: (key) => remove(key),
+    keys: orderedKeys,
+    clear: () => {
+      values.clear();
+      counts.clear();
+      buckets.clear();
+    },
+    has: (key) => values.has(key),
+    size: () => values.size,
+    onEvict: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+export interface TinyLfuStoreOptions {
+  maxSize?: number; // Maximum number of items across the window and the main area
+  windowRatio?: number; // Share of maxSize reserved for new items before they face admission (default: 0.01)
+}
+
+// Count-min sketch of key frequencies with 4-bit counters that are halved periodically,
+// so the counts follow recent popularity
+function createFrequencySketch(capacity: number) {
+  let width = 16;
+  while (width < capacity * 4) width *= 2;
+  const rows = [new Uint8Array(width), new Uint8Array(width), new Uint8Array(width)];
+  const seeds = [0x811c9dc5, 0x01000193, 0x5bd1e995];
+  const sampleSize = Math.max(10 * capacity, 100);
+  let additions = 0;
+
+  // FNV-1a with a per-row seed
+  const index = (key: string, seed: number) => {
+    let hash = seed;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) & (width - 1);
+  };
+
+  return {
+    increment: (key: string) => {
+      rows.forEach((row, i) => {
+        const slot = index(key, seeds[i]);
+        if (row[slot] < 15) row[slot]++;
+      });
+      if (++additions >= sampleSize) {
+        additions = 0;
+        for (const row of rows) {
+          for (let i = 0; i < row.length; i++) row[i] >>= 1;
+        }
+      }
+    },
+    frequency: (key: string) => Math.min(...rows.map((row, i) => row[index(key, seeds[i])])),
+  };
+}
+
+/**
+ * Creates an in-memory store with W-TinyLFU admission: new items enter a small LRU
+ * window, and an item leaving the window only replaces the least recently used item
+ * of the main area when it has been requested more often recently. One-off scans
+ * pass through the window without displacing popular items.
+ * @param options Store configuration options
+ * @returns A synchronous cache store
+ */
+export function createTinyLfuStore<V = any>(options: TinyLfuStoreOptions = {}): SyncCacheStore<V> {
+  const maxSize = Math.max(1, options.maxSize ?? 1000);
+  const windowSize = Math.max(1, Math.round(maxSize * (options.windowRatio ?? 0.01)));
+  const mainSize = Math.max(0, maxSize - windowSize);
+  // Both areas are maps in least recently used order
+  const window = new Map<string, V>();
+  const main = new Map<string, V>();
+  const sketch = createFrequencySketch(maxSize);
+  const listeners = new Set<StoreEvictListener<V>>();
+
+  const evict = (key: string, value: V) => {
+    for (const listener of listeners) listener(key, value);
+  };
+
+  const oldest = (area: Map<string, V>) => area.entries().next().value as [string, V];
+
+  // Move the window's oldest item to the main area if it wins against the main area's victim
+  function admitFromWindow() {
+    const [candidateKey, candidate] = oldest(window);
+    window.delete(candidateKey);
+
+    if (main.size < mainSize) {
+      main.set(candidateKey, candidate);
+      return;
+    }
+    if (mainSize === 0) {
+      evict(candidateKey, candidate);
+      return;
+    }
+
+    const [victimKey, victim] = oldest(main);
+    if (sketch.frequency(candidateKey) > sketch.frequency(victimKey)) {
+      main.delete(victimKey);
+      main.set(candidateKey, candidate);
+      evict(victimKey, victim);
+    } else {
+      evict(candidateKey, candidate);
+    }
+  }
+
+  return {
+    get: (key) => {
+      sketch.increment(key);
+      const area = window.has(key) ? window : main.has(key) ? main : undefined;
+      if (!area) return undefined;
+
+      const value = area.get(key) as V;
+      area.delete(key);
+      area.set(key, value);
+      return value;
+    },
+    peek: (key) => window.get(key) ?? main.get(key),
+    set: (key, value) => {
+      sketch.increment(key);
+      if (main.has(key)) {
+        main.delete(key);
+        main.set(key, value);
+        return;
+      }
+
+      window.delete(key);
+      window.set(key, value);
+      if (window.size > windowSize) {
+        admitFromWindow();
+      }
+    },
+    delete: (key) => window.delete(key) || main.delete(key),
+    keys: () => [...window.keys(), ...main.keys()], // Unproven window items are evicted first
+    clear: () => {
+      window.clear();
+      main.clear();
+    },
+    has: (key) => window.has(key) || main.has(key),
+    size: () => window.size + main.size,
+    onEvict: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Minimal subset of `fs/promises` needed by the file store. Passing it in keeps this
+ * module free of Node.js imports so it can still be bundled for browsers.
+ */
+export interface FileStoreFs {
+  readFile: (path: string, encoding: 'utf8') => Promise<string>;
+  writeFile: (path: string, data: string, encoding: 'utf8') => Promise<void>;
+}
+
+export interface FileStoreOptions<V = any> {
+  path: string; // Path of the JSON snapshot file
+  fs: FileStoreFs; // e.g. `import fs from 'fs/promises'`
+  serializer?: CacheSerializer<V>; // Converts values JSON can't represent (Errors and Dates are handled already)
+}
+
+// Errors and Dates don't survive JSON.stringify, so they are written as tagged objects
+function encodeSpecialValues(this: Record<string, unknown>, key: string, value: unknown) {
+  const original = this[key];
+  if (original instanceof Error) {
+    return { $type: 'Error', name: original.name, message: original.message };
+  }
+  if (original instanceof Date) {
+    return { $type: 'Date', time: original.getTime() };
+  }
+  return value;
+}
+
+function decodeSpecialValues(_key: string, value: any) {
+  if (value?.$type === 'Error') {
+    const error = new Error(value.message);
+    error.name = value.name;
+    return error;
+  }
+  if (value?.$type === 'Date') {
+    return new Date(value.time);
+  }
+  return value;
+}
+
+/**
+ * Creates a store that keeps its entries in memory and persists a JSON snapshot
+ * to disk after every change, so cached results survive process restarts.
+ * @param options Store configuration options
+ * @returns An asynchronous cache store
+ */
+export function createFileStore<V = any>(options: FileStoreOptions<V>): CacheStore<V> {
+  const { path, fs, serializer } = options;
+  let data: Map<string, V> | null = null;
+  let loading: Promise<Map<string, V>> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  // Read the snapshot once, treating a missing or corrupt file as empty
+  function load(): Promise<Map<string, V>> {
+    if (data) return Promise.resolve(data);
+    if (!loading) {
+      loading = fs
+        .readFile(path, 'utf8')
+        .then(
+          (content) =>
+            new Map<string, V>(
+              Object.entries(JSON.parse(content, decodeSpecialValues)).map(([key, value]) => [
+                key,
+                serializer ? serializer.deserialize(value, key) : (value as V),
+              ])
+            )
+        )
+        .catch(() => new Map<string, V>())
+        .then((map) => {
+          data = map;
+          return map;
+        });
+    }
+    return loading;
+  }
+
+  // Writes are chained so snapshots land on disk in the order they were taken
+  function persist(map: Map<string, V>): Promise<void> {
+    const content = JSON.stringify(
+      Object.fromEntries(
+        Array.from(map, ([key, value]) => [
+          key,
+          serializer ? serializer.serialize(value, key) : value,
+        ])
+      ),
+      encodeSpecialValues
+    );
+    writing = writing.catch(() => {}).then(() => fs.writeFile(path, content, 'utf8'));
+    return writing;
+  }
+
+  return {
+    get: async (key) => (await load()).get(key),
+    set: async (key, value) => {
+      const map = await load();
+      map.set(key, value);
+      await persist(map);
+    },
+    delete: async (key) => {
+      const map = await load();
+      const existed = map.delete(key);
+      if (existed) await persist(map);
+      return existed;
+    },
+    keys: async () => Array.from((await load()).keys()),
+    clear: async () => {
+      const map = await load();
+      map.clear();
+      await persist(map);
+    },
+    has: async (key) => (await load()).has(key),
+    size: async () => (await load()).size,
+  };
+}
@@ -1,120 +1,724 @@
-import { lru } from 'tiny-lru'; 
+import {
+  createFifoStore,
+  createLfuStore,
+  createLruStore,
+  createMapStore,
+  createTinyLfuStore,
+  type CacheSerializer,
+  type CacheStore,
+  type MaybePromise,
+  type StoreEvictListener,
+  type SyncCacheStore,
+} from './cache-store';
+import { systemClock, type Clock } from './clock';
+import { emitEvent, type Instrumentation, type InstrumentationEvent } from './instrumentation';
+import { resolveLogger, type Logger } from './logger';
 
 // ===== ASYNC CACHE =====
 
 export interface CacheOptions<T> {
-  ttl: number; // Time-to-live in milliseconds
+  ttl: number | CacheTtl<T>; // Time-to-live in milliseconds, or computed per result
+  errorTtl?: number | CacheTtl<unknown>; // Time-to-live of cached errors (default: ttl when it is a number, otherwise errors aren't cached)
   maxSize?: number; // Maximum number of items in cache
-  // onEvict?: (key: string, value: T) => void; // NOTE: onEvict is not supported when using tiny-lru
+  policy?: CachePolicy; // Which item the default store evicts when full (default: 'lru'), ignored when a store is given
+  maxWeight?: number; // Maximum total weight of cached values, heavier values are never cached
+  sizeOf?: (value: T, key: string) => number; // Weight of a value, e.g. its size in bytes (default: 1, cached errors always weigh 1)
+  onEvict?: EvictListener<T>; // Called whenever an entry leaves the cache
   staleWhileRevalidate?: boolean; // Return stale data while fetching fresh data
+  refreshAhead?: number; // Fraction of the TTL before expiry in which hits reload the entry in the background (0-1)
+  probabilisticRefresh?: boolean | number; // XFetch-style early reload, true or a beta factor where higher refreshes earlier (default 1)
   getTimestamp?: () => number; // For testing and sync with external time sources
+  clock?: Clock; // Time source used when getTimestamp isn't given (default: system clock)
+  instrumentation?: Instrumentation; // Receives hit, miss, stale and coalesced events
+  logger?: Logger; // Where callback and background refresh errors are logged (default: the global default logger)
   cacheErrorResults?: boolean; // Whether to cache rejected promises/errors
+  store?: CacheStore<CacheEntry<T>>; // Storage backend, defaults to an LRU store sized by maxSize
+  serializer?: CacheSerializer<T>; // Converts values for dump and load (default: values are used as they are)
 }
 
 export interface CacheEntry<T> {
   value: T;
   expiry: number;
-  lastAccessed: number; // Note: tiny-lru manages LRU internally, this might become redundant unless used elsewhere
+  lastAccessed: number; // Note: the store manages eviction order, this is informational only
   isError?: boolean;
+  loadTime?: number; // Milliseconds the load took, used by probabilisticRefresh
+  tags?: string[]; // Labels for removing related entries together with invalidateTag
+  ttl?: number; // Time-to-live the entry was stored with, used by refreshAhead
 }
 
+/**
+ * Computes the time-to-live of a loaded value from the value and the wrapper's
+ * arguments (empty for `set`), or returns false to not cache it
+ */
+export type CacheTtl<V> = (value: V, args: unknown[]) => number | false;
+
+/**
+ * Eviction policy of the default store: least recently used, least frequently used,
+ * W-TinyLFU admission, insertion order, or no size limit at all ('ttl' ignores `maxSize`,
+ * entries only leave once expired, pruned on writes as the store grows)
+ */
+export type CachePolicy = 'lru' | 'lfu' | 'tinylfu' | 'fifo' | 'ttl';
+
+export interface CacheSnapshotEntry extends Omit<CacheEntry<unknown>, 'lastAccessed'> {
+  key: string;
+}
+
+export interface CacheSnapshot {
+  version: 1;
+  entries: CacheSnapshotEntry[];
+}
+
+export type EvictionReason = 'capacity' | 'expired' | 'deleted' | 'cleared' | 'replaced';
+
+export type EvictListener<T> = (key: string, entry: CacheEntry<T>, reason: EvictionReason) => void;
+
+export type CacheEntryMatcher<T> = RegExp | ((key: string, entry: CacheEntry<T>) => boolean);
+
 export interface CacheStats {
   size: number;
   hits: number;
   misses: number;
   staleHits: number;
   errors: number;
+  coalesced: number; // Calls that joined a load already in flight for the same key
+  hitRatio: number; // Share of lookups served from the cache (fresh or stale), 0 before any lookup
+  weight?: number; // Total weight of cached values, only with maxWeight
+  largestEntries?: Array<{ key: string; weight: number }>; // Heaviest entries first, only with maxWeight
 }
 
-export interface AsyncCache<T> {
+/**
+ * Result type of the cache management methods: plain values for synchronous stores,
+ * promises when the cache is backed by an asynchronous store
+ */
+export type CacheResult<R, Async extends boolean> = Async extends true ? Promise<R> : R;
+
+export interface AsyncCache<T, Async extends boolean = false> {
   (
     fn: (...args: any[]) => Promise<T>,
-    keyGenerator?: (...args: any[]) => string
+    keyGenerator?: (...args: any[]) => string,
+    tagGenerator?: (...args: any[]) => string[]
   ): (...args: any[]) => Promise<T>;
-  clear: () => void;
-  size: () => number;
-  delete: (key: string) => boolean;
-  has: (key: string) => boolean;
-  get: <K extends string>(key: K) => T | undefined;
-  set: <K extends string>(key: K, value: T, ttl?: number, isError?: boolean) => void;
-  keys: () => string[];
-  getEntry: <K extends string>(key: K) => CacheEntry<T> | undefined;
-  updateTTL: <K extends string>(key: K, ttl: number) => boolean;
-  stats: () => CacheStats;
-  prune: () => number; // Manually remove expired entries, returns count of removed items
+  clear: () => CacheResult<void, Async>;
+  size: () => CacheResult<number, Async>;
+  delete: (key: string) => CacheResult<boolean, Async>;
+  has: (key: string) => CacheResult<boolean, Async>;
+  get: <K extends string>(key: K) => CacheResult<T | undefined, Async>;
+  set: <K extends string>(
+    key: K,
+    value: T,
+    ttl?: number,
+    isError?: boolean,
+    tags?: string[]
+  ) => CacheResult<void, Async>;
+  keys: () => CacheResult<string[], Async>;
+  getEntry: <K extends string>(key: K) => CacheResult<CacheEntry<T> | undefined, Async>;
+  updateTTL: <K extends string>(key: K, ttl: number) => CacheResult<boolean, Async>;
+  stats: () => CacheResult<CacheStats, Async>;
+  prune: () => CacheResult<number, Async>; // Manually remove expired entries, returns count of removed items
+  invalidateTag: (tag: string) => CacheResult<number, Async>; // Remove entries stored with the tag, returns count of removed items
+  invalidate: (matcher: CacheEntryMatcher<T>) => CacheResult<number, Async>; // Remove entries whose key matches, returns count of removed items
+  dump: () => CacheResult<CacheSnapshot, Async>; // Export all entries in a serializable form
+  load: (snapshot: CacheSnapshot) => CacheResult<number, Async>; // Restore entries that haven't expired, returns count of restored items
+  onEvict: (listener: EvictListener<T>) => () => void; // Subscribe to evictions, returns an unsubscribe function
+}
+
+// Cached errors are stored as plain objects in snapshots, instances don't survive JSON
+interface SerializedError {
+  name: string;
+  message: string;
+}
+
+function serializeError(error: unknown): SerializedError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error) };
+}
+
+function deserializeError(data: unknown): Error {
+  const { name, message } = (data ?? {}) as Partial<SerializedError>;
+  const error = new Error(message);
+  if (name) error.name = name;
+  return error;
+}
+
+// Continue with `fn` right away for plain values, or once a promise resolves
+function pipe<A, B>(value: MaybePromise<A>, fn: (value: A) => MaybePromise<B>): MaybePromise<B> {
+  return value instanceof Promise ? value.then(fn) : fn(value);
+}
+
+// Run `fn` for each item in order, staying synchronous until a step returns a promise
+function each<V>(items: V[], fn: (item: V) => MaybePromise<void>, start = 0): MaybePromise<void> {
+  for (let i = start; i < items.length; i++) {
+    const result = fn(items[i]);
+    if (result instanceof Promise) {
+      return result.then(() => each(items, fn, i + 1));
+    }
+  }
+}
+
+// Size at which writes to the unbounded 'ttl' store start pruning expired entries
+const TTL_POLICY_PRUNE_SIZE = 1000;
+
+// The default in-memory store for each eviction policy
+function createPolicyStore<V>(policy: CachePolicy, maxSize: number): SyncCacheStore<V> {
+  switch (policy) {
+    case 'lfu':
+      return createLfuStore({ maxSize });
+    case 'tinylfu':
+      return createTinyLfuStore({ maxSize });
+    case 'fifo':
+      return createFifoStore({ maxSize });
+    case 'ttl':
+      return createMapStore();
+    default:
+      return createLruStore({ maxSize });
+  }
+}
+
+// A load that may still store its result, superseded when its key is invalidated
+interface ActiveLoad {
+  generation: number;
+  tags?: string[];
+}
+
+interface WeightedStore<V> extends CacheStore<V> {
+  weight: () => number;
+  largest: (count: number) => Array<{ key: string; weight: number }>;
+}
+
+// Keep the total weight of a store's values under `maxWeight`, evicting entries in the
+// store's key order (least recently used first for the LRU store) and refusing values
+// that could never fit or whose weight isn't a finite, non-negative number
+function withWeightLimit<T>(
+  store: CacheStore<CacheEntry<T>>,
+  maxWeight: number,
+  sizeOf: (value: T, key: string) => number,
+  onReject: (key: string, weight: number) => void
+): WeightedStore<CacheEntry<T>> {
+  const weights = new Map<string, number>();
+  const listeners = new Set<StoreEvictListener<CacheEntry<T>>>();
+  let total = 0;
+
+  const forget = (key: string) => {
+    total -= weights.get(key) ?? 0;
+    weights.delete(key);
+  };
+
+  const notify = (key: string, entry: CacheEntry<T>) => {
+    for (const listener of listeners) {
+      listener(key, entry);
+    }
+  };
+
+  store.onEvict?.((key, entry) => {
+    forget(key);
+    notify(key, entry);
+  });
+
+  // Entries are evicted one at a time until the total fits, never the one just written
+  function evictOverweight(keep: string): MaybePromise<void> {
+    if (total <= maxWeight) return;
+
+    return pipe(store.keys(), (keys) =>
+      each(keys, (key) => {
+        if (total <= maxWeight || key === keep) return;
+        return pipe(store.peek ? store.peek(key) : store.get(key), (entry) =>
+          pipe(store.delete(key), (existed) => {
+            forget(key);
+            if (existed && entry) notify(key, entry);
+          })
+        );
+      })
+    );
+  }
+
+  return {
+    get: (key) => store.get(key),
+    peek: store.peek && ((key) => store.peek!(key)),
+    keys: () => store.keys(),
+    has: store.has && ((key) => store.has!(key)),
+    size: store.size && (() => store.size!()),
+    set: (key, entry) => {
+      // Cached errors aren't values sizeOf knows how to measure, each one weighs 1
+      const weight = entry.isError ? 1 : sizeOf(entry.value, key);
+      if (!Number.isFinite(weight) || weight < 0 || weight > maxWeight) {
+        onReject(key, weight);
+        // The previous value is outdated now, keep neither
+        return pipe(store.delete(key), () => forget(key));
+      }
+
+      return pipe(store.set(key, entry), () => {
+        forget(key);
+        weights.set(key, weight);
+        total += weight;
+        return evictOverweight(key);
+      });
+    },
+    delete: (key) =>
+      pipe(store.delete(key), (existed) => {
+        forget(key);
+        return existed;
+      }),
+    clear: () =>
+      pipe(store.clear(), () => {
+        weights.clear();
+        total = 0;
+      }),
+    onEvict: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    weight: () => total,
+    largest: (count) =>
+      Array.from(weights, ([key, weight]) => ({ key, weight }))
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, count),
+  };
 }
 
 /**
- * Creates a cache wrapper for async functions with TTL expiry and LRU eviction
+ * Creates a cache wrapper for async functions with TTL expiry and size-bounded eviction
  * @param options Cache configuration options
  * @returns A function that wraps async functions with caching
  */
-export function createAsyncCache<T = any>(options: Partial<CacheOptions<T>> = {}): AsyncCache<T> {
+export function createAsyncCache<T = any>(
+  options?: Partial<CacheOptions<T>> & { store?: SyncCacheStore<CacheEntry<T>> }
+): AsyncCache<T>;
+export function createAsyncCache<T = any>(
+  options: Partial<CacheOptions<T>> & { store: CacheStore<CacheEntry<T>> }
+): AsyncCache<T, true>;
+export function createAsyncCache<T = any>(
+  options: Partial<CacheOptions<T>> = {}
+): AsyncCache<T, boolean> {
+  const clock = options.clock ?? systemClock;
   const config: CacheOptions<T> = {
     ttl: 5 * 60 * 1000, // 5 minutes default
     maxSize: 1000,
     staleWhileRevalidate: false,
-    getTimestamp: () => Date.now(),
+    getTimestamp: () => clock.now(),
     cacheErrorResults: false,
     ...options,
   };
 
-  // Use tiny-lru for LRU eviction based on maxSize
+  const emit = (event: InstrumentationEvent) =>
+    emitEvent(config.instrumentation, event, config.logger);
+
+  // Default to a store evicting by the configured policy (LRU unless set) based on maxSize
   // TTL is handled manually via CacheEntry.expiry to support staleWhileRevalidate
-  const cache = lru<CacheEntry<T>>(config.maxSize || 1000); // Ensure maxSize is defined
+  const baseStore: CacheStore<CacheEntry<T>> =
+    config.store ??
+    createPolicyStore<CacheEntry<T>>(config.policy ?? 'lru', config.maxSize || 1000); // Ensure maxSize is defined
+  // Weights are tracked in memory on top of the store when maxWeight is set
+  const weighted =
+    config.maxWeight !== undefined
+      ? withWeightLimit(baseStore, config.maxWeight, config.sizeOf ?? (() => 1), (key, weight) =>
+          resolveLogger(config.logger).warn(
+            weight > config.maxWeight!
+              ? `Not caching "${key}", its weight ${weight} exceeds maxWeight ${config.maxWeight}`
+              : `Not caching "${key}", sizeOf returned an invalid weight ${weight}`
+          )
+        )
+      : undefined;
+  const store = weighted ?? baseStore;
   const refreshingKeys = new Set<string>(); // Track keys being refreshed
+  const inFlight = new Map<string, Promise<T>>(); // Loads running after a miss, shared by concurrent callers
+  const activeLoads = new Map<string, ActiveLoad>(); // Latest load per key, only it may store its result
+  let loadGeneration = 0;
+  // The 'ttl' store never evicts, so writes prune expired entries whenever it has doubled
+  let ttlPruneSize = !config.store && config.policy === 'ttl' ? TTL_POLICY_PRUNE_SIZE : Infinity;
+  const evictListeners = new Set<EvictListener<T>>();
+  if (config.onEvict) {
+    evictListeners.add(config.onEvict);
+  }
   const stats: CacheStats = {
     hits: 0,
     misses: 0,
     staleHits: 0,
     errors: 0,
-    size: 0, // size will be derived from cache.size
+    coalesced: 0,
+    hitRatio: 0, // hitRatio will be derived from the counters
+    size: 0, // size will be derived from the store
   };
 
+  const storeSize = (): MaybePromise<number> =>
+    store.size ? store.size() : pipe(store.keys(), (keys) => keys.length);
+
+  const storeHas = (key: string): MaybePromise<boolean> =>
+    store.has ? store.has(key) : pipe(store.get(key), (entry) => entry !== undefined);
+
+  // Internal reads (pruning, eviction events, snapshots) shouldn't count as uses
+  const storePeek = (key: string): MaybePromise<CacheEntry<T> | undefined> =>
+    store.peek ? store.peek(key) : store.get(key);
+
+  function emitEvict(key: string, entry: CacheEntry<T>, reason: EvictionReason) {
+    for (const listener of evictListeners) {
+      try {
+        listener(key, entry, reason);
+      } catch (err) {
+        resolveLogger(config.logger).error('Error in onEvict callback:', err);
+      }
+    }
+  }
+
+  // Entries the store drops on its own are evicted for capacity
+  store.onEvict?.((key, entry) => emitEvict(key, entry, 'capacity'));
+
+  function setEntry(key: string, entry: CacheEntry<T>): MaybePromise<void> {
+    if (ttlPruneSize !== Infinity) {
+      return pipe(pruneGrownStore(), () => writeEntry(key, entry));
+    }
+    return writeEntry(key, entry);
+  }
+
+  // The previous entry is only looked up when someone is listening for evictions
+  function writeEntry(key: string, entry: CacheEntry<T>): MaybePromise<void> {
+    if (evictListeners.size === 0) return store.set(key, entry);
+
+    return pipe(storePeek(key), (previous) =>
+      pipe(store.set(key, entry), () => {
+        if (previous && previous !== entry) {
+          emitEvict(key, previous, 'replaced');
+        }
+      })
+    );
+  }
+
+  function deleteEntry(key: string): MaybePromise<boolean> {
+    if (evictListeners.size === 0) return store.delete(key);
+
+    return pipe(storePeek(key), (previous) =>
+      pipe(store.delete(key), (existed) => {
+        if (existed && previous) {
+          emitEvict(key, previous, 'deleted');
+        }
+        return existed;
+      })
+    );
+  }
+
+  function clearEntries(): MaybePromise<void> {
+    if (evictListeners.size === 0) return store.clear();
+
+    const entries: Array<[string, CacheEntry<T>]> = [];
+    return pipe(store.keys(), (keys) =>
+      pipe(
+        each(keys, (key) =>
+          pipe(storePeek(key), (entry) => {
+            if (entry) entries.push([key, entry]);
+          })
+        ),
+        () =>
+          pipe(store.clear(), () => {
+            for (const [key, entry] of entries) {
+              emitEvict(key, entry, 'cleared');
+            }
+          })
+      )
+    );
+  }
+
   // Helper to clean expired entries based on manual expiry time
-  function pruneExpired(): number {
-    const now = config.getTimestamp?.() || Date.now();
+  function pruneExpired(): MaybePromise<number> {
+    const now = config.getTimestamp?.() || clock.now();
     let count = 0;
 
     // Iterate over a copy of keys as we might delete during iteration
-    const keys = Array.from(cache.keys());
-    for (const key of keys) {
-      const entry = cache.get(key); // Use get instead of peek (updates LRU order)
-      if (entry && entry.expiry < now) {
-        // NOTE: onEvict callback removed
-        cache.delete(key);
-        count++;
+    return pipe(store.keys(), (keys) =>
+      pipe(
+        each(keys, (key) =>
+          pipe(storePeek(key), (entry) => {
+            if (entry && entry.expiry < now) {
+              count++;
+              return pipe(store.delete(key), () => emitEvict(key, entry, 'expired'));
+            }
+          })
+        ),
+        () => count
+      )
+    );
+  }
+
+  // Prune once the store reaches the threshold, then wait until it doubles again
+  function pruneGrownStore(): MaybePromise<void> {
+    return pipe(storeSize(), (size) => {
+      if (size < ttlPruneSize) return;
+      return pipe(pruneExpired(), () =>
+        pipe(storeSize(), (remaining) => {
+          ttlPruneSize = Math.max(TTL_POLICY_PRUNE_SIZE, remaining * 2);
+        })
+      );
+    });
+  }
+
+  // Register a load for the key, replacing any earlier one, and return its generation
+  function startLoad(key: string, tags?: string[]): number {
+    const generation = ++loadGeneration;
+    activeLoads.set(key, { generation, tags });
+    return generation;
+  }
+
+  function isCurrentLoad(key: string, generation: number): boolean {
+    return activeLoads.get(key)?.generation === generation;
+  }
+
+  function finishLoad(key: string, generation: number) {
+    if (isCurrentLoad(key, generation)) {
+      activeLoads.delete(key);
+    }
+  }
+
+  // Stop running loads from storing their results, and let new calls start a fresh load
+  function supersedeLoads(matches: (key: string, tags?: string[]) => boolean) {
+    for (const [key, load] of activeLoads) {
+      if (matches(key, load.tags)) {
+        activeLoads.delete(key);
+        inFlight.delete(key);
       }
     }
+  }
+
+  // Delete every entry accepted by `matches`, returns the count of removed items
+  function invalidateEntries(
+    matches: (key: string, entry: CacheEntry<T>) => boolean
+  ): MaybePromise<number> {
+    let count = 0;
+
+    return pipe(store.keys(), (keys) =>
+      pipe(
+        each(keys, (key) =>
+          pipe(storePeek(key), (entry) => {
+            if (entry && matches(key, entry)) {
+              supersedeLoads((loadKey) => loadKey === key);
+              return pipe(store.delete(key), (existed) => {
+                if (existed) {
+                  count++;
+                  emitEvict(key, entry, 'deleted');
+                }
+              });
+            }
+          })
+        ),
+        () => count
+      )
+    );
+  }
+
+  // Resolve the time-to-live of a value or error, false when it shouldn't be cached
+  function ttlFor(value: unknown, args: unknown[], isError?: boolean): number | false {
+    const ttl = isError
+      ? (config.errorTtl ?? (typeof config.ttl === 'number' ? config.ttl : false))
+      : config.ttl;
+    return typeof ttl === 'function' ? ttl(value as T, args) : ttl;
+  }
+
+  // Store a loaded value or error, or drop the key when its TTL says not to cache it
+  function storeResult(
+    key: string,
+    now: number,
+    args: unknown[],
+    entry: Omit<CacheEntry<T>, 'expiry' | 'lastAccessed' | 'ttl'>
+  ): MaybePromise<void> {
+    const ttl = ttlFor(entry.value, args, entry.isError);
+    if (ttl === false) {
+      return pipe(deleteEntry(key), () => undefined);
+    }
+    // The store handles eviction if it is full
+    return setEntry(key, { ...entry, expiry: now + ttl, lastAccessed: now, ttl });
+  }
+
+  // Export every entry with serialized values, cached errors become plain objects
+  function dumpEntries(): MaybePromise<CacheSnapshot> {
+    const entries: CacheSnapshotEntry[] = [];
+
+    // Reading keys in store order keeps the LRU order intact
+    return pipe(store.keys(), (keys) =>
+      pipe(
+        each(keys, (key) =>
+          pipe(storePeek(key), (entry) => {
+            if (!entry) return;
+            const { lastAccessed: _lastAccessed, value, ...meta } = entry;
+            entries.push({
+              ...meta,
+              key,
+              value: entry.isError
+                ? serializeError(value)
+                : config.serializer
+                  ? config.serializer.serialize(value, key)
+                  : value,
+            });
+          })
+        ),
+        () => ({ version: 1 as const, entries })
+      )
+    );
+  }
 
-    return count;
+  // Restore the entries of a snapshot that haven't expired, returns how many were restored
+  function loadEntries(snapshot: CacheSnapshot): MaybePromise<number> {
+    // Checked after a store call so an async store rejects instead of throwing synchronously
+    return pipe(storeSize(), () => {
+      if (snapshot?.version !== 1 || !Array.isArray(snapshot.entries)) {
+        throw new Error('Unsupported cache snapshot format');
+      }
+
+      const now = config.getTimestamp?.() || clock.now();
+      const entries = snapshot.entries.filter((entry) => entry.expiry > now);
+      let restored = 0;
+
+      return pipe(
+        each(entries, ({ key, value, ...meta }) =>
+          pipe(
+            setEntry(key, {
+              ...meta,
+              value: meta.isError
+                ? (deserializeError(value) as T)
+                : config.serializer
+                  ? config.serializer.deserialize(value, key)
+                  : (value as T),
+              lastAccessed: now,
+            }),
+            // The store may refuse an entry, e.g. one heavier than maxWeight
+            () =>
+              pipe(storePeek(key), (entry) => {
+                if (entry) restored++;
+              })
+          )
+        ),
+        () => restored
+      );
+    });
+  }
+
+  // Whether a hit should reload the entry before it expires
+  function shouldRefreshEarly(entry: CacheEntry<T>, now: number): boolean {
+    const ttl = entry.ttl ?? (typeof config.ttl === 'number' ? config.ttl : 0);
+    if (config.refreshAhead && entry.expiry - now <= ttl * config.refreshAhead) {
+      return true;
+    }
+    if (config.probabilisticRefresh && entry.loadTime) {
+      // XFetch: refresh with a probability that grows as expiry nears and with slower loads
+      const beta = config.probabilisticRefresh === true ? 1 : config.probabilisticRefresh;
+      return now - entry.loadTime * beta * Math.log(Math.random()) >= entry.expiry;
+    }
+    return false;
+  }
+
+  // Reloads a key without blocking the caller, at most one reload per key at a time
+  function refreshInBackground(
+    key: string,
+    now: number,
+    args: unknown[],
+    load: () => Promise<T>,
+    cacheErrors: boolean,
+    tags?: string[]
+  ) {
+    if (refreshingKeys.has(key)) return;
+
+    refreshingKeys.add(key);
+    const generation = startLoad(key, tags);
+    const startedAt = config.getTimestamp?.() || clock.now();
+    load()
+      .then((freshValue) => {
+        if (!isCurrentLoad(key, generation)) return;
+        return storeResult(key, now, args, {
+          value: freshValue,
+          loadTime: (config.getTimestamp?.() || clock.now()) - startedAt,
+          tags,
+        });
+      })
+      .catch((error) => {
+        resolveLogger(config.logger).error(`Cache refresh failed for key "${key}":`, error);
+        // Decide whether to cache the error or keep the current entry
+        if (cacheErrors && isCurrentLoad(key, generation)) {
+          stats.errors++;
+          return storeResult(key, now, args, { value: error as T, isError: true, tags });
+        }
+      })
+      .catch((error) => {
+        resolveLogger(config.logger).error(`Cache store failed for key "${key}":`, error);
+      })
+      .finally(() => {
+        refreshingKeys.delete(key);
+        finishLoad(key, generation);
+      });
+  }
+
+  // Calls `load` and stores its result, or its error when cacheErrorResults is set
+  async function loadEntry(
+    key: string,
+    now: number,
+    args: unknown[],
+    load: () => Promise<T>,
+    tags?: string[]
+  ): Promise<T> {
+    const generation = startLoad(key, tags);
+    try {
+      // Occasional pruning of manually expired items
+      if (Math.random() < 0.1) {
+        await pruneExpired();
+      }
+
+      let result: T;
+      const startedAt = config.getTimestamp?.() || clock.now();
+      try {
+        result = await load();
+      } catch (error) {
+        // A load superseded by an invalidation still settles its callers, but isn't stored
+        if (config.cacheErrorResults && isCurrentLoad(key, generation)) {
+          stats.errors++;
+          await storeResult(key, now, args, { value: error as T, isError: true, tags });
+        }
+        throw error;
+      }
+
+      if (isCurrentLoad(key, generation)) {
+        await storeResult(key, now, args, {
+          value: result,
+          loadTime: (config.getTimestamp?.() || clock.now()) - startedAt,
+          tags,
+        });
+      }
+      return result;
+    } finally {
+      finishLoad(key, generation);
+    }
   }
 
   /**
    * Wraps an async function with caching capabilities
    * @param fn The async function to cache
    * @param keyGenerator Optional function to generate a cache key from arguments
+   * @param tagGenerator Optional function to generate tags for invalidateTag from arguments
    * @returns A wrapped function that uses the cache
    */
   function asyncCache<Args extends any[]>(
     fn: (...args: Args) => Promise<T>,
-    keyGenerator?: (...args: Args) => string
+    keyGenerator?: (...args: Args) => string,
+    tagGenerator?: (...args: Args) => string[]
   ): (...args: Args) => Promise<T> {
     const safeFn = async function (...args: Args): Promise<T> {
       const key = keyGenerator ? keyGenerator(...args) : JSON.stringify(args);
-      const now = config.getTimestamp?.() || Date.now();
+      const tags = tagGenerator?.(...args);
+      const now = config.getTimestamp?.() || clock.now();
 
-      // Check for cache entry (tiny-lru's get updates LRU order)
-      const existing = cache.get(key);
+      // Check for cache entry (the default LRU store's get updates LRU order)
+      const existing = await store.get(key);
 
       // Handle stale-while-revalidate pattern
       if (existing) {
-        // Update lastAccessed for consistency if needed elsewhere, though tiny-lru handles LRU
+        // Update lastAccessed for consistency if needed elsewhere, though the store handles eviction
         existing.lastAccessed = now;
 
         if (existing.expiry > now) {
           // Valid cache hit
           stats.hits++;
+          emit({ type: 'cache:hit', key });
+          if (!existing.isError && shouldRefreshEarly(existing, now)) {
+            // Keep serving the current value, errors from the reload don't replace it
+            refreshInBackground(key, now, args, () => fn(...args), false, tags);
+          }
           if (existing.isError) {
             throw existing.value;
           }
@@ -123,39 +727,9 @@ export function createAsyncCache<T = any>(options: Partial<CacheOptions<T>> = {}
           // Stale but usable
           const staleValue = existing.value;
           stats.staleHits++;
+          emit({ type: 'cache:stale', key });
 
-          if (!refreshingKeys.has(key)) {
-            refreshingKeys.add(key);
-            // Refresh in background
-            fn(...args)
-              .then((freshValue) => {
-                // tiny-lru handles eviction if maxSize is reached on set
-                cache.set(key, {
-                  value: freshValue,
-                  expiry: now + config.ttl,
-                  lastAccessed: now,
-                });
-              })
-              .catch((error) => {
-                console.error(`Cache refresh failed for key "${key}":`, error);
-                // Decide whether to cache the error or remove the stale entry
-                if (config.cacheErrorResults) {
-                   cache.set(key, {
-                     value: error as T,
-                     expiry: now + config.ttl, // Cache error with standard TTL
-                     lastAccessed: now,
-                     isError: true,
-                   });
-                   stats.errors++;
-                } else {
-                  // Optionally remove the stale entry if refresh fails and errors aren't cached
-                  // cache.delete(key);
-                }
-              })
-              .finally(() => {
-                refreshingKeys.delete(key);
-              });
-          }
+          refreshInBackground(key, now, args, () => fn(...args), !!config.cacheErrorResults, tags);
 
           // Return stale value (including stale errors)
           if (existing.isError) {
@@ -167,35 +741,27 @@ export function createAsyncCache<T = any>(options: Partial<CacheOptions<T>> = {}
         // Fall through to cache miss logic
       }
 
-      // Cache miss or expired without stale-while-revalidate
-      stats.misses++;
-
-      // Occasional pruning of manually expired items
-      if (Math.random() < 0.1) {
-        pruneExpired();
+      // Cache miss or expired without stale-while-revalidate, join a load
+      // that is already running for this key instead of calling fn again
+      const pending = inFlight.get(key);
+      if (pending) {
+        stats.coalesced++;
+        emit({ type: 'cache:coalesced', key });
+        return pending;
       }
 
+      stats.misses++;
+      emit({ type: 'cache:miss', key });
+
+      const load = loadEntry(key, now, args, () => fn(...args), tags);
+      inFlight.set(key, load);
       try {
-        const result = await fn(...args);
-        // tiny-lru handles eviction if maxSize is reached on set
-        cache.set(key, {
-          value: result,
-          expiry: now + config.ttl,
-          lastAccessed: now,
-        });
-        return result;
-      } catch (error) {
-        if (config.cacheErrorResults) {
-          stats.errors++;
-          // tiny-lru handles eviction if maxSize is reached on set
-          cache.set(key, {
-            value: error as T,
-            expiry: now + config.ttl,
-            lastAccessed: now,
-            isError: true,
-          });
+        return await load;
+      } finally {
+        // An invalidation may have replaced this load with a newer one
+        if (inFlight.get(key) === load) {
+          inFlight.delete(key);
         }
-        throw error;
       }
     };
 
@@ -203,68 +769,112 @@ export function createAsyncCache<T = any>(options: Partial<CacheOptions<T>> = {}
   }
 
   // Add methods to manage cache
-  asyncCache.clear = () => cache.clear();
-  asyncCache.size = () => cache.size; // Fix: Access size as a property
+  asyncCache.clear = () => {
+    supersedeLoads(() => true);
+    return clearEntries();
+  };
+  asyncCache.size = () => storeSize();
+  // Returns whether it existed before deletion
   asyncCache.delete = (key: string) => {
-    // NOTE: onEvict callback removed
-    const existed = cache.has(key);
-    cache.delete(key); // tiny-lru delete returns the instance, not boolean
-    return existed; // Return whether it existed before deletion
+    supersedeLoads((loadKey) => loadKey === key);
+    return deleteEntry(key);
   };
-  asyncCache.has = (key: string) => cache.has(key);
-  asyncCache.get = <K extends string>(key: K) => {
-    const entry = cache.get(key); // Updates LRU order
-    if (!entry) return undefined;
-
-    const now = config.getTimestamp?.() || Date.now();
-    entry.lastAccessed = now; // Update for consistency if needed
-
-    if (entry.expiry > now) {
-      stats.hits++;
-      // Don't throw errors in get method - this is correct API behavior
-      if (entry.isError) {
-        return undefined;
-      }
-      return entry.value;
-    } else {
-      // Expired
-      if (config.staleWhileRevalidate) {
-        stats.staleHits++;
-        // Return stale data, but don't throw errors from get
+  asyncCache.has = (key: string) => storeHas(key);
+  asyncCache.get = <K extends string>(key: K) =>
+    // Updates LRU order
+    pipe(store.get(key), (entry) => {
+      if (!entry) return undefined;
+
+      const now = config.getTimestamp?.() || clock.now();
+      entry.lastAccessed = now; // Update for consistency if needed
+
+      if (entry.expiry > now) {
+        stats.hits++;
+        emit({ type: 'cache:hit', key });
+        // Don't throw errors in get method - this is correct API behavior
         if (entry.isError) {
           return undefined;
         }
         return entry.value;
+      } else {
+        // Expired
+        if (config.staleWhileRevalidate) {
+          stats.staleHits++;
+          emit({ type: 'cache:stale', key });
+          // Return stale data, but don't throw errors from get
+          if (entry.isError) {
+            return undefined;
+          }
+          return entry.value;
+        }
+        // Expired and not SWR
+        return undefined;
       }
-      // Expired and not SWR
-      return undefined;
+    });
+  asyncCache.set = <K extends string>(
+    key: K,
+    value: T,
+    ttl?: number,
+    isError?: boolean,
+    tags?: string[]
+  ) => {
+    const now = config.getTimestamp?.() || clock.now();
+    if (ttl === undefined) {
+      return storeResult(key, now, [], { value, isError, tags });
     }
+    // The store handles eviction if it is full
+    return setEntry(key, { value, expiry: now + ttl, lastAccessed: now, isError, tags, ttl });
   };
-  asyncCache.set = <K extends string>(key: K, value: T, ttl?: number, isError?: boolean) => {
-    const now = config.getTimestamp?.() || Date.now();
-    // tiny-lru handles eviction if maxSize is reached on set
-    cache.set(key, {
-      value,
-      expiry: now + (ttl ?? config.ttl),
-      lastAccessed: now,
-      isError,
+  asyncCache.keys = () => store.keys();
+  // Use get for getEntry (updates LRU order)
+  asyncCache.getEntry = <K extends string>(key: K) => store.get(key);
+  asyncCache.updateTTL = <K extends string>(key: K, ttl: number) =>
+    pipe(store.get(key), (entry) => {
+      if (!entry) return false;
+
+      const now = config.getTimestamp?.() || clock.now();
+      entry.expiry = now + ttl;
+      entry.ttl = ttl;
+      // Re-set to ensure the update is stored correctly by the store
+      return pipe(store.set(key, entry), () => true);
     });
+  asyncCache.stats = () =>
+    pipe(storeSize(), (size) => {
+      const served = stats.hits + stats.staleHits;
+      const hitRatio = served + stats.misses > 0 ? served / (served + stats.misses) : 0;
+      return weighted
+        ? {
+            ...stats,
+            size,
+            hitRatio,
+            weight: weighted.weight(),
+            largestEntries: weighted.largest(5),
+          }
+        : { ...stats, size, hitRatio };
+    });
+  asyncCache.prune = () => pruneExpired();
+  asyncCache.invalidateTag = (tag: string) => {
+    supersedeLoads((_key, tags) => tags?.includes(tag) ?? false);
+    return invalidateEntries((_key, entry) => entry.tags?.includes(tag) ?? false);
   };
-  asyncCache.keys = () => Array.from(cache.keys()); // Remove redundant type casting
-  // Use get for getEntry (updates LRU order, unlike peek)
-  asyncCache.getEntry = <K extends string>(key: K) => cache.get(key);
-  asyncCache.updateTTL = <K extends string>(key: K, ttl: number) => {
-    const entry = cache.get(key); // Use get instead of peek (updates LRU order)
-    if (!entry) return false;
-
-    const now = config.getTimestamp?.() || Date.now();
-    entry.expiry = now + ttl;
-    // Re-set to ensure the update is stored correctly by tiny-lru
-    cache.set(key, entry);
-    return true;
+  asyncCache.invalidate = (matcher: CacheEntryMatcher<T>) => {
+    if (matcher instanceof RegExp) {
+      // search ignores lastIndex, so global patterns match every key consistently
+      const matchesKey = (key: string) => key.search(matcher) !== -1;
+      supersedeLoads(matchesKey);
+      return invalidateEntries(matchesKey);
+    }
+    // Predicates need an entry, so they only supersede loads of keys that have one
+    return invalidateEntries(matcher);
+  };
+  asyncCache.dump = () => dumpEntries();
+  asyncCache.load = (snapshot: CacheSnapshot) => loadEntries(snapshot);
+  asyncCache.onEvict = (listener: EvictListener<T>) => {
+    evictListeners.add(listener);
+    return () => {
+      evictListeners.delete(listener);
+    };
   };
-  asyncCache.stats = () => ({ ...stats, size: cache.size }); // Fix: Access size as a property
-  asyncCache.prune = () => pruneExpired();
 
-  return asyncCache;
-}
\ No newline at end of file
+  return asyncCache as AsyncCache<T, boolean>;
+}
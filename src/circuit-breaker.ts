@@ -0,0 +1,230 @@
+// ===== CIRCUIT BREAKER =====
+
+import { systemClock, type Clock } from './clock';
+import { resolveLogger, type Logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  failureRateThreshold?: number; // Failure rate (0-1) within the window that opens the circuit
+  minimumRequests: number; // Calls needed in the window before the failure rate is considered
+  windowSize: number; // Number of most recent calls used to compute the failure rate
+  resetTimeout: number; // Cool-down in milliseconds before an open circuit lets probes through
+  halfOpenMaxCalls: number; // Probes allowed while half-open, all must succeed to close again
+  isFailure?: (error: Error) => boolean; // Which errors count against the circuit (default: all)
+  onStateChange?: (state: CircuitState, previousState: CircuitState) => void;
+  getTimestamp?: () => number; // For testing and sync with external time sources
+  clock?: Clock; // Time source used when getTimestamp isn't given (default: system clock)
+  logger?: Logger; // Where callback errors are logged (default: the global default logger)
+}
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  successes: number; // Successful calls ever recorded
+  failures: number; // Failed calls ever recorded
+  rejected: number; // Calls refused while open or out of probes
+  consecutiveFailures: number;
+  failureRate: number; // Failure rate within the current window
+}
+
+export interface CircuitBreaker {
+  // Failures after `signal` aborted are the caller's cancellation and aren't recorded
+  execute: <T>(operation: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  state: () => CircuitState;
+  isOpen: () => boolean; // True while calls are being refused
+  recordSuccess: () => void;
+  recordFailure: (error?: Error) => void;
+  open: () => void; // Force the circuit open
+  reset: () => void; // Force the circuit closed and forget recent outcomes
+  stats: () => CircuitBreakerStats;
+}
+
+/**
+ * Error thrown when a call is refused because the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  retryAfter: number; // Milliseconds until the circuit lets probes through
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+
+    // Capture proper stack trace in modern JS environments
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CircuitOpenError);
+    }
+  }
+}
+
+/**
+ * Creates a circuit breaker that stops calling a failing dependency for a cool-down
+ * period, then lets a limited number of probes through to test whether it recovered
+ * @param options Configuration options for circuit breaker behavior
+ * @returns A circuit breaker object with methods to execute and inspect calls
+ */
+export function createCircuitBreaker(options: Partial<CircuitBreakerOptions> = {}): CircuitBreaker {
+  const clock = options.clock ?? systemClock;
+  const config: CircuitBreakerOptions = {
+    failureThreshold: 5,
+    minimumRequests: 10,
+    windowSize: 20,
+    resetTimeout: 30000,
+    halfOpenMaxCalls: 1,
+    getTimestamp: () => clock.now(),
+    ...options,
+  };
+
+  let state: CircuitState = 'closed';
+  let openedAt = 0;
+  let consecutiveFailures = 0;
+  let halfOpenInFlight = 0;
+  let halfOpenSuccesses = 0;
+  const window: boolean[] = []; // Recent outcomes, true = failure
+
+  const stats = {
+    successes: 0,
+    failures: 0,
+    rejected: 0,
+  };
+
+  const now = () => config.getTimestamp?.() || clock.now();
+
+  function transition(next: CircuitState) {
+    if (state === next) return;
+
+    const previous = state;
+    state = next;
+    halfOpenInFlight = 0;
+    halfOpenSuccesses = 0;
+
+    if (next === 'open') {
+      openedAt = now();
+    } else if (next === 'closed') {
+      consecutiveFailures = 0;
+      window.length = 0;
+    }
+
+    if (config.onStateChange) {
+      try {
+        config.onStateChange(next, previous);
+      } catch (err) {
+        resolveLogger(config.logger).error('Error in onStateChange callback:', err);
+      }
+    }
+  }
+
+  // An open circuit turns half-open once the cool-down has passed
+  function currentState(): CircuitState {
+    if (state === 'open' && now() - openedAt >= config.resetTimeout) {
+      transition('half-open');
+    }
+    return state;
+  }
+
+  function failureRate(): number {
+    if (window.length === 0) return 0;
+    return window.filter(Boolean).length / window.length;
+  }
+
+  function recordOutcome(failed: boolean) {
+    window.push(failed);
+    if (window.length > config.windowSize) {
+      window.shift();
+    }
+  }
+
+  function recordSuccess() {
+    stats.successes++;
+    consecutiveFailures = 0;
+    recordOutcome(false);
+
+    if (state === 'half-open') {
+      halfOpenSuccesses++;
+      if (halfOpenSuccesses >= config.halfOpenMaxCalls) {
+        transition('closed');
+      }
+    }
+  }
+
+  function recordFailure(error?: Error) {
+    if (error && config.isFailure && !config.isFailure(error)) {
+      // Errors that don't count against the circuit still prove the dependency responded
+      recordSuccess();
+      return;
+    }
+
+    stats.failures++;
+    consecutiveFailures++;
+    recordOutcome(true);
+
+    if (state === 'half-open') {
+      transition('open');
+      return;
+    }
+
+    const tooManyConsecutive = consecutiveFailures >= config.failureThreshold;
+    const tooHighRate =
+      config.failureRateThreshold !== undefined &&
+      window.length >= config.minimumRequests &&
+      failureRate() >= config.failureRateThreshold;
+
+    if (state === 'closed' && (tooManyConsecutive || tooHighRate)) {
+      transition('open');
+    }
+  }
+
+  async function execute<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const current = currentState();
+
+    if (
+      current === 'open' ||
+      (current === 'half-open' && halfOpenInFlight >= config.halfOpenMaxCalls)
+    ) {
+      stats.rejected++;
+      const retryAfter = Math.max(0, openedAt + config.resetTimeout - now());
+      throw new CircuitOpenError('Circuit breaker is open', retryAfter);
+    }
+
+    if (current === 'half-open') {
+      halfOpenInFlight++;
+    }
+
+    try {
+      const result = await operation();
+      recordSuccess();
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        // Free the probe slot, the dependency wasn't tested
+        if (state === 'half-open' && halfOpenInFlight > 0) {
+          halfOpenInFlight--;
+        }
+      } else {
+        recordFailure(error instanceof Error ? error : new Error(String(error)));
+      }
+      throw error;
+    }
+  }
+
+  return {
+    execute,
+    state: currentState,
+    isOpen: () => currentState() === 'open',
+    recordSuccess,
+    recordFailure,
+    open: () => transition('open'),
+    reset: () => {
+      transition('closed');
+      consecutiveFailures = 0;
+      window.length = 0;
+    },
+    stats: () => ({
+      ...stats,
+      state: currentState(),
+      consecutiveFailures,
+      failureRate: failureRate(),
+    }),
+  };
+}
@@ -0,0 +1,122 @@
+// ===== CLOCK =====
+
+export type TimerHandle = unknown;
+
+/**
+ * Source of time and timers, pass a custom one to control time in tests
+ */
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, delay: number) => TimerHandle;
+  clearTimeout: (handle: TimerHandle) => void;
+  setInterval: (callback: () => void, interval: number) => TimerHandle;
+  clearInterval: (handle: TimerHandle) => void;
+}
+
+/**
+ * Clock backed by Date.now and the global timer functions, looked up on every call
+ * so environments that patch them (like fake timers) keep working
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, interval) => setInterval(callback, interval),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+};
+
+export interface ManualClock extends Clock {
+  advance: (ms: number) => Promise<void>; // Move time forward, running due timers in order
+  runAll: () => Promise<void>; // Run timers until none are left
+  pending: () => number; // Number of scheduled timers
+}
+
+interface ManualTimer {
+  id: number;
+  callback: () => void;
+  at: number;
+  interval?: number;
+}
+
+// Captured at load so flushing still works when the global timers are faked later
+const scheduleMacrotask: (callback: () => void) => void =
+  typeof setImmediate === 'function' ? setImmediate : (callback) => setTimeout(callback, 0);
+
+// Let promise callbacks settle so code awaiting between timers can schedule the next one
+const flush = () => new Promise<void>((resolve) => scheduleMacrotask(resolve));
+
+/**
+ * Creates a clock whose time only moves when advanced, for stepping through
+ * retries, polls and timeouts deterministically
+ * @param start Initial timestamp (default 0)
+ * @param maxTimers Timers runAll executes before assuming an endless loop (default 1000)
+ * @returns A clock to pass as the `clock` option, with methods to advance it
+ */
+export function createManualClock(start = 0, maxTimers = 1000): ManualClock {
+  let time = start;
+  let nextId = 1;
+  const timers = new Map<number, ManualTimer>();
+
+  const schedule = (callback: () => void, delay: number, interval?: number) => {
+    const id = nextId++;
+    timers.set(id, { id, callback, at: time + Math.max(0, delay || 0), interval });
+    return id;
+  };
+
+  const cancel = (handle: TimerHandle) => {
+    timers.delete(handle as number);
+  };
+
+  // Earliest timer due at or before `limit`, ties run in scheduling order
+  const nextDue = (limit: number): ManualTimer | undefined => {
+    let next: ManualTimer | undefined;
+    for (const timer of timers.values()) {
+      if (timer.at <= limit && (!next || timer.at < next.at)) {
+        next = timer;
+      }
+    }
+    return next;
+  };
+
+  const fire = (timer: ManualTimer) => {
+    time = Math.max(time, timer.at);
+    if (timer.interval !== undefined) {
+      timer.at = time + Math.max(1, timer.interval);
+    } else {
+      timers.delete(timer.id);
+    }
+    timer.callback();
+  };
+
+  return {
+    now: () => time,
+    setTimeout: (callback, delay) => schedule(callback, delay),
+    clearTimeout: cancel,
+    setInterval: (callback, interval) => schedule(callback, interval, interval),
+    clearInterval: cancel,
+    advance: async (ms) => {
+      const target = time + ms;
+      await flush();
+
+      let timer = nextDue(target);
+      while (timer) {
+        fire(timer);
+        await flush();
+        timer = nextDue(target);
+      }
+      time = target;
+    },
+    runAll: async () => {
+      await flush();
+
+      for (let ran = 0; timers.size > 0; ran++) {
+        if (ran >= maxTimers) {
+          throw new Error(`Aborting after running ${maxTimers} timers, assuming an endless loop`);
+        }
+        fire(nextDue(Infinity)!);
+        await flush();
+      }
+    },
+    pending: () => timers.size,
+  };
+}
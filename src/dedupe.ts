@@ -1,10 +1,17 @@
 // dedupe.ts
+import { systemClock, type Clock, type TimerHandle } from './clock';
+import { emitEvent, type Instrumentation, type InstrumentationEvent } from './instrumentation';
+import type { Logger } from './logger';
+
 export interface DedupeOptions {
   timeout?: number; // Maximum time to wait for in-flight request before creating a new one
   errorSharing?: boolean; // Whether to share errors across deduplicated calls
   keyPrefix?: string; // Prefix for keys to avoid collisions when used in multiple places
   abortSupport?: boolean; // Whether functions support AbortController signals
   maxAge?: number; // Optional max age for cached promises before they're considered stale
+  clock?: Clock; // Time source for timestamps and the cleanup timer (default: system clock)
+  instrumentation?: Instrumentation; // Receives started and joined events
+  logger?: Logger; // Where instrumentation errors are logged (default: the global default logger)
 }
 
 export interface PromiseRecord<T> {
@@ -43,19 +50,24 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
     ...options,
   };
 
+  const clock = config.clock ?? systemClock;
+
+  const emit = (event: InstrumentationEvent) =>
+    emitEvent(config.instrumentation, event, config.logger);
+
   const inProgress = new Map<string, PromiseRecord<any>>();
   let nextPromiseId = 1; // To generate unique IDs for promise records
 
   // Fix: Use generic timeout ID type to support both Node and browser environments
-  let cleanupTimer: ReturnType<typeof setTimeout> | null = null;
+  let cleanupTimer: TimerHandle | null = null;
 
   const setupCleanupTimer = () => {
     if (config.maxAge && !cleanupTimer) {
       // Fix: Use setTimeout/setInterval in a way that works in both Node and browser
       const maxAge = config.maxAge; // Avoid non-null assertion
-      cleanupTimer = setInterval(
+      cleanupTimer = clock.setInterval(
         () => {
-          const now = Date.now();
+          const now = clock.now();
           for (const [key, record] of inProgress.entries()) {
             if (now - record.timestamp > maxAge) {
               // Abort and remove stale promises
@@ -68,7 +80,7 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
 
           // If no more in-progress items, clear the interval
           if (inProgress.size === 0 && cleanupTimer) {
-            clearInterval(cleanupTimer);
+            clock.clearInterval(cleanupTimer);
             cleanupTimer = null;
           }
         },
@@ -98,9 +110,9 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
       const lastArg = fnArgs[lastArgIndex];
       // Fix: Better check for options objects - must be plain object and not null
       if (
-        lastArg && 
-        typeof lastArg === 'object' && 
-        !Array.isArray(lastArg) && 
+        lastArg &&
+        typeof lastArg === 'object' &&
+        !Array.isArray(lastArg) &&
         lastArg.constructor === Object
       ) {
         // Update the existing options object
@@ -181,7 +193,7 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
     return async (...args: Args): Promise<T> => {
       const rawKey = keyGenerator ? keyGenerator(...args) : JSON.stringify(args);
       const key = config.keyPrefix ? `${config.keyPrefix}:${rawKey}` : rawKey;
-      const now = Date.now();
+      const now = clock.now();
 
       // If this exact call is already in progress and not timed out
       if (inProgress.has(key)) {
@@ -196,6 +208,7 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
         // Reuse if not stale and not timed out
         if (!isStale && !isTimedOut) {
           record.subscribers++;
+          emit({ type: 'dedupe:joined', key });
 
           // If error sharing is disabled, create a new promise chain to isolate errors
           if (!config.errorSharing) {
@@ -224,7 +237,7 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
 
       // Generate a unique ID for this promise record
       const promiseId = nextPromiseId++;
-      
+
       // Create a new promise for this call
       const controller = config.abortSupport ? new AbortController() : undefined;
 
@@ -239,7 +252,7 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
         } else {
           fnArgs = args;
         }
-        
+
         result = fn(...fnArgs);
 
         // Handle case where the function doesn't return a promise
@@ -282,6 +295,7 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
 
       // Store the promise record
       inProgress.set(key, promiseRecord);
+      emit({ type: 'dedupe:started', key });
 
       return wrappedPromise;
     };
@@ -304,7 +318,7 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
 
     // Clear cleanup timer if it exists
     if (cleanupTimer) {
-      clearInterval(cleanupTimer);
+      clock.clearInterval(cleanupTimer);
       cleanupTimer = null;
     }
   };
@@ -333,7 +347,7 @@ export function createAsyncDedupe(options: Partial<DedupeOptions> = {}): AsyncDe
 
     // Clear cleanup timer if it exists
     if (cleanupTimer) {
-      clearInterval(cleanupTimer);
+      clock.clearInterval(cleanupTimer);
       cleanupTimer = null;
     }
 
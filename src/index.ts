@@ -1,6 +1,13 @@
 export * from './retry';
 export * from './cache';
+export * from './cache-store';
 export * from './dedupe';
 export * from './queue';
 export * from './poll';
+export * from './backoff';
+export * from './clock';
+export * from './instrumentation';
+export * from './logger';
+export * from './circuit-breaker';
+export * from './retry-budget';
 export * from './utils';
@@ -0,0 +1,225 @@
+// ===== INSTRUMENTATION =====
+
+import { resolveLogger, type Logger } from './logger';
+
+/**
+ * Structured events emitted by every module. Events that open and close a unit
+ * of work share an `id` (retry call, queue task, poller run) to correlate them.
+ */
+export type InstrumentationEvent =
+  | { type: 'retry:attempt-start'; id: number; attempt: number }
+  | { type: 'retry:attempt-end'; id: number; attempt: number; duration: number; error?: Error }
+  | { type: 'retry:give-up'; id: number; attempts: number; reason: string; error: Error }
+  | { type: 'cache:hit'; key: string }
+  | { type: 'cache:miss'; key: string }
+  | { type: 'cache:stale'; key: string }
+  | { type: 'cache:coalesced'; key: string }
+  | { type: 'dedupe:started'; key: string }
+  | { type: 'dedupe:joined'; key: string }
+  | { type: 'queue:task-queued'; queue: number; id: string; priority: number }
+  | { type: 'queue:task-started'; queue: number; id: string; waited: number }
+  | {
+      type: 'queue:task-finished';
+      queue: number; // Identifies the queue, task ids are only unique within one
+      id: string;
+      status: QueueTaskStatus;
+      duration: number; // Milliseconds since the task started, 0 if it never did
+      error?: Error;
+    }
+  | { type: 'poll:tick-start'; id: number; attempt: number }
+  | { type: 'poll:tick-end'; id: number; attempt: number; duration: number; error?: Error };
+
+export type QueueTaskStatus = 'completed' | 'failed' | 'timeout' | 'cancelled';
+
+export type InstrumentationEventType = InstrumentationEvent['type'];
+
+export type Instrumentation = (event: InstrumentationEvent) => void;
+
+let nextId = 1;
+
+/**
+ * Generates ids for correlating start and end events
+ */
+export function nextInstrumentationId(): number {
+  return nextId++;
+}
+
+/**
+ * Delivers an event, keeping listener errors away from the instrumented code
+ */
+export function emitEvent(
+  instrumentation: Instrumentation | undefined,
+  event: InstrumentationEvent,
+  logger?: Logger
+): void {
+  if (!instrumentation) return;
+  try {
+    instrumentation(event);
+  } catch (err) {
+    resolveLogger(logger).error('Error in instrumentation callback:', err);
+  }
+}
+
+/**
+ * Fans one event stream out to several instrumentations
+ */
+export function combineInstrumentation(
+  ...instrumentations: (Instrumentation | undefined)[]
+): Instrumentation {
+  return (event) => {
+    for (const instrumentation of instrumentations) {
+      emitEvent(instrumentation, event);
+    }
+  };
+}
+
+// ===== OPENTELEMETRY-STYLE ADAPTER =====
+
+type Attributes = Record<string, string | number | boolean>;
+
+// The subset of the OpenTelemetry API used by the adapter, so no dependency is needed
+export interface TracerLike {
+  startSpan: (name: string, options?: { attributes?: Attributes }) => SpanLike;
+}
+
+export interface SpanLike {
+  setAttribute: (key: string, value: string | number | boolean) => unknown;
+  setStatus: (status: { code: number; message?: string }) => unknown;
+  recordException: (exception: Error) => unknown;
+  end: () => void;
+}
+
+export interface MeterLike {
+  createCounter: (
+    name: string,
+    options?: { description?: string }
+  ) => {
+    add: (value: number, attributes?: Attributes) => void;
+  };
+  createHistogram: (
+    name: string,
+    options?: { description?: string; unit?: string }
+  ) => {
+    record: (value: number, attributes?: Attributes) => void;
+  };
+}
+
+export interface OtelInstrumentationOptions {
+  tracer?: TracerLike; // Creates spans for retry attempts, queue tasks and poll ticks
+  meter?: MeterLike; // Records counters and duration histograms
+  prefix?: string; // Prefix for span and metric names (default: 'async_plugins')
+}
+
+// Same values as SpanStatusCode in @opentelemetry/api
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Turns instrumentation events into spans and metrics on OpenTelemetry-compatible
+ * tracer and meter objects, e.g. `trace.getTracer('app')` and `metrics.getMeter('app')`
+ * @param options The tracer and meter to report to
+ * @returns An instrumentation to pass as the `instrumentation` option of any factory
+ */
+export function createOtelInstrumentation(options: OtelInstrumentationOptions): Instrumentation {
+  const { tracer, meter, prefix = 'async_plugins' } = options;
+  const spans = new Map<string, SpanLike>();
+
+  const counters = new Map<string, ReturnType<MeterLike['createCounter']>>();
+  const histograms = new Map<string, ReturnType<MeterLike['createHistogram']>>();
+
+  function count(name: string, attributes?: Attributes) {
+    if (!meter) return;
+    let counter = counters.get(name);
+    if (!counter) {
+      counter = meter.createCounter(`${prefix}.${name}`);
+      counters.set(name, counter);
+    }
+    counter.add(1, attributes);
+  }
+
+  function recordDuration(name: string, value: number, attributes?: Attributes) {
+    if (!meter) return;
+    let histogram = histograms.get(name);
+    if (!histogram) {
+      histogram = meter.createHistogram(`${prefix}.${name}`, { unit: 'ms' });
+      histograms.set(name, histogram);
+    }
+    histogram.record(value, attributes);
+  }
+
+  function startSpan(spanKey: string, name: string, attributes: Attributes) {
+    if (!tracer) return;
+    spans.set(spanKey, tracer.startSpan(`${prefix}.${name}`, { attributes }));
+  }
+
+  function endSpan(spanKey: string, error?: Error, attributes: Attributes = {}) {
+    const span = spans.get(spanKey);
+    if (!span) return;
+    spans.delete(spanKey);
+
+    for (const [key, value] of Object.entries(attributes)) {
+      span.setAttribute(key, value);
+    }
+    if (error) {
+      span.recordException(error);
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+    } else {
+      span.setStatus({ code: SPAN_STATUS_OK });
+    }
+    span.end();
+  }
+
+  return (event) => {
+    switch (event.type) {
+      case 'retry:attempt-start':
+        startSpan(`retry:${event.id}`, 'retry.attempt', { attempt: event.attempt });
+        break;
+      case 'retry:attempt-end':
+        endSpan(`retry:${event.id}`, event.error);
+        count(event.error ? 'retry.attempt.failures' : 'retry.attempt.successes');
+        recordDuration('retry.attempt.duration', event.duration);
+        break;
+      case 'retry:give-up':
+        count('retry.give_ups', { reason: event.reason });
+        break;
+      case 'cache:hit':
+        count('cache.hits');
+        break;
+      case 'cache:miss':
+        count('cache.misses');
+        break;
+      case 'cache:stale':
+        count('cache.stale_hits');
+        break;
+      case 'cache:coalesced':
+        count('cache.coalesced');
+        break;
+      case 'dedupe:started':
+        count('dedupe.started');
+        break;
+      case 'dedupe:joined':
+        count('dedupe.joined');
+        break;
+      case 'queue:task-queued':
+        count('queue.tasks.queued');
+        break;
+      case 'queue:task-started':
+        startSpan(`queue:${event.queue}:${event.id}`, 'queue.task', { 'task.id': event.id });
+        recordDuration('queue.task.wait', event.waited);
+        break;
+      case 'queue:task-finished':
+        endSpan(`queue:${event.queue}:${event.id}`, event.error, { 'task.status': event.status });
+        count('queue.tasks.finished', { status: event.status });
+        recordDuration('queue.task.duration', event.duration, { status: event.status });
+        break;
+      case 'poll:tick-start':
+        startSpan(`poll:${event.id}`, 'poll.tick', { attempt: event.attempt });
+        break;
+      case 'poll:tick-end':
+        endSpan(`poll:${event.id}`, event.error);
+        count('poll.ticks', { outcome: event.error ? 'error' : 'ok' });
+        recordDuration('poll.tick.duration', event.duration);
+        break;
+    }
+  };
+}
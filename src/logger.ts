@@ -0,0 +1,75 @@
+// ===== LOGGER =====
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Logger used for failures the modules can't report to the caller, such as errors
+ * thrown by callbacks. Compatible with console, pino, winston and similar loggers.
+ */
+export interface Logger {
+  debug: (message: string, ...args: unknown[]) => void;
+  info: (message: string, ...args: unknown[]) => void;
+  warn: (message: string, ...args: unknown[]) => void;
+  error: (message: string, ...args: unknown[]) => void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * Creates a logger that forwards messages at or above `level` to `base`
+ * @param base Where to write messages (default: console)
+ * @param level Minimum level to forward, 'silent' drops everything (default: 'warn')
+ * @returns A logger to pass as the `logger` option or to setDefaultLogger
+ */
+export function createLogger(base: Partial<Logger> = console, level: LogLevel = 'warn'): Logger {
+  const forward =
+    (method: Exclude<LogLevel, 'silent'>) =>
+    (message: string, ...args: unknown[]) => {
+      if (LEVELS[method] >= LEVELS[level]) {
+        base[method]?.(message, ...args);
+      }
+    };
+
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error'),
+  };
+}
+
+/**
+ * Logger that drops every message
+ */
+export const silentLogger: Logger = createLogger(console, 'silent');
+
+let defaultLogger: Logger = createLogger();
+
+/**
+ * Sets the logger used by every factory created without a `logger` option,
+ * including ones created before this call
+ * @param logger The logger to use, or null to restore the console logger
+ */
+export function setDefaultLogger(logger: Logger | null): void {
+  defaultLogger = logger ?? createLogger();
+}
+
+/**
+ * Returns the logger used by factories created without a `logger` option
+ */
+export function getDefaultLogger(): Logger {
+  return defaultLogger;
+}
+
+/**
+ * Picks the configured logger, falling back to the current default
+ */
+export function resolveLogger(logger: Logger | undefined): Logger {
+  return logger ?? defaultLogger;
+}
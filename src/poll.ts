@@ -1,19 +1,32 @@
 // ===== ASYNC POLL =====
 
+import { computeBackoff, type BackoffOptions, type BackoffType, type JitterType } from './backoff';
+import { systemClock, type Clock, type TimerHandle } from './clock';
+import {
+  emitEvent,
+  nextInstrumentationId,
+  type Instrumentation,
+  type InstrumentationEvent,
+} from './instrumentation';
+import type { Logger } from './logger';
+
 export interface PollOptions {
   interval: number; // Polling interval in milliseconds
   maxAttempts?: number; // Maximum number of attempts (undefined = infinite)
   backoff?: {
     // Backoff configuration
-    type: 'fixed' | 'linear' | 'exponential';
+    type: BackoffType;
     factor?: number; // Factor to multiply by (for linear/exponential)
     maxInterval?: number; // Maximum interval
-    jitter?: boolean; // Add random jitter to prevent thundering herd
+    jitter?: boolean | JitterType; // Add random jitter to prevent thundering herd, true means 'spread' (±15%)
   };
   shouldContinue?: (result: any, attempt: number) => boolean; // Determine if polling should continue
   onProgress?: (result: any, attempt: number) => void; // Callback for intermediate results
   onError?: (error: Error, attempt: number) => boolean | Promise<boolean>; // Handle errors, return true to continue
   abortSignal?: AbortSignal; // Allow cancellation of polling
+  clock?: Clock; // Time source for poll timers (default: system clock)
+  instrumentation?: Instrumentation; // Receives an event around every poll
+  logger?: Logger; // Where instrumentation errors are logged (default: the global default logger)
 }
 
 export class PollError extends Error {
@@ -51,8 +64,14 @@ export function createAsyncPoller<T>(
     ...options,
   };
 
+  const clock = config.clock ?? systemClock;
+  const pollerId = nextInstrumentationId();
+
+  const emit = (event: InstrumentationEvent) =>
+    emitEvent(config.instrumentation, event, config.logger);
+
   // Polling state
-  let timerId: ReturnType<typeof setTimeout> | null = null;
+  let timerId: TimerHandle | null = null;
   let currentAttempt = 0;
   let currentInterval = config.interval;
   let polling = false;
@@ -94,41 +113,29 @@ export function createAsyncPoller<T>(
     }
   }
 
-  // Calculate next interval based on backoff strategy with optional jitter
-  function getNextInterval(): number {
+  // Calculate the interval after `attempt` polls based on backoff strategy with optional jitter
+  function getInterval(attempt: number): number {
     if (!config.backoff) {
       return config.interval;
     }
 
-    const { type, factor = 2, maxInterval, jitter = false } = config.backoff;
-
-    let nextInterval: number;
-
-    switch (type) {
-      case 'fixed':
-        nextInterval = config.interval;
-        break;
-      case 'linear':
-        nextInterval = config.interval + config.interval * (factor - 1) * currentAttempt;
-        break;
-      case 'exponential':
-        nextInterval = config.interval * Math.pow(factor, currentAttempt);
-        break;
-      default:
-        nextInterval = config.interval;
-    }
-
-    if (maxInterval !== undefined) {
-      nextInterval = Math.min(nextInterval, maxInterval);
-    }
+    const { type, factor, maxInterval, jitter = false } = config.backoff;
+    const options: BackoffOptions = {
+      type,
+      base: config.interval,
+      factor,
+      maxDelay: maxInterval,
+      jitter: jitter === true ? 'spread' : jitter || undefined,
+    };
 
-    // Apply jitter if configured (±15%)
-    if (jitter) {
-      const jitterRange = nextInterval * 0.15;
-      nextInterval += Math.random() * jitterRange * 2 - jitterRange;
-    }
+    // Built-in progressions start one step in, the first delay is already interval * factor
+    return typeof type === 'function'
+      ? computeBackoff(options, attempt, currentInterval)
+      : computeBackoff(options, attempt + 1, currentInterval);
+  }
 
-    return nextInterval;
+  function getNextInterval(): number {
+    return getInterval(currentAttempt);
   }
 
   // Execute a single poll attempt
@@ -148,8 +155,29 @@ export function createAsyncPoller<T>(
 
     currentAttempt++;
 
+    const attempt = currentAttempt;
+    const tickStartedAt = clock.now();
+    const endTick = (error?: unknown) =>
+      emit({
+        type: 'poll:tick-end',
+        id: pollerId,
+        attempt,
+        duration: clock.now() - tickStartedAt,
+        error: error === undefined || error instanceof Error ? error : new Error(String(error)),
+      });
+    emit({ type: 'poll:tick-start', id: pollerId, attempt });
+
     try {
-      const result = await fn();
+      const result = await fn().then(
+        (value) => {
+          endTick();
+          return value;
+        },
+        (error) => {
+          endTick(error);
+          throw error;
+        }
+      );
 
       // Report progress if configured
       if (config.onProgress) {
@@ -170,7 +198,7 @@ export function createAsyncPoller<T>(
 
       // Schedule next attempt
       currentInterval = getNextInterval();
-      timerId = setTimeout(executePoll, currentInterval);
+      timerId = clock.setTimeout(executePoll, currentInterval);
     } catch (error) {
       // Handle errors
       const shouldContinue = config.onError
@@ -190,14 +218,14 @@ export function createAsyncPoller<T>(
 
       // Schedule next attempt
       currentInterval = getNextInterval();
-      timerId = setTimeout(executePoll, currentInterval);
+      timerId = clock.setTimeout(executePoll, currentInterval);
     }
   }
 
   // Clean up all resources
   function cleanup() {
     if (timerId !== null) {
-      clearTimeout(timerId);
+      clock.clearTimeout(timerId);
       timerId = null;
     }
 
@@ -217,7 +245,7 @@ export function createAsyncPoller<T>(
     polling = false;
 
     if (timerId !== null) {
-      clearTimeout(timerId);
+      clock.clearTimeout(timerId);
       timerId = null;
     }
 
@@ -254,7 +282,7 @@ export function createAsyncPoller<T>(
         currentPromise = { resolve, reject };
 
         // Start polling immediately on next tick to ensure proper setup
-        setTimeout(executePoll, 0);
+        clock.setTimeout(executePoll, 0);
       });
     },
 
@@ -274,34 +302,11 @@ export function createAsyncPoller<T>(
 
       // If we're polling and the timer is active, restart with new interval
       if (polling && timerId !== null) {
-        // Calculate the new current interval based on backoff state
-        if (!config.backoff) {
-          currentInterval = interval;
-        } else if (config.backoff.type === 'fixed') {
-          currentInterval = interval;
-        } else if (config.backoff.type === 'linear') {
-          // Preserve the linear progression
-          const factor = config.backoff.factor ?? 2;
-          currentInterval = interval + interval * (factor - 1) * (currentAttempt - 1);
-        } else if (config.backoff.type === 'exponential') {
-          // Preserve the exponential progression
-          const factor = config.backoff.factor ?? 2;
-          currentInterval = interval * Math.pow(factor, currentAttempt - 1);
-        }
-
-        // Apply maxInterval if configured
-        if (config.backoff?.maxInterval !== undefined) {
-          currentInterval = Math.min(currentInterval, config.backoff.maxInterval);
-        }
-
-        // Apply jitter if configured
-        if (config.backoff?.jitter) {
-          const jitterRange = currentInterval * 0.15;
-          currentInterval += Math.random() * jitterRange * 2 - jitterRange;
-        }
+        // Calculate the new current interval, preserving the backoff progression
+        currentInterval = getInterval(Math.max(0, currentAttempt - 1));
 
-        clearTimeout(timerId);
-        timerId = setTimeout(executePoll, currentInterval);
+        clock.clearTimeout(timerId);
+        timerId = clock.setTimeout(executePoll, currentInterval);
       }
     },
   };
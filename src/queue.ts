@@ -1,5 +1,15 @@
 // ===== ASYNC QUEUE =====
 
+import { systemClock, type Clock, type TimerHandle } from './clock';
+import {
+  emitEvent,
+  nextInstrumentationId,
+  type Instrumentation,
+  type InstrumentationEvent,
+  type QueueTaskStatus,
+} from './instrumentation';
+import { resolveLogger, type Logger } from './logger';
+
 export interface QueueOptions {
   concurrency: number; // Number of concurrent operations
   autoStart?: boolean; // Start processing automatically
@@ -7,6 +17,84 @@ export interface QueueOptions {
   onEmpty?: () => void | Promise<void>; // Called when queue becomes empty
   onDrain?: () => void | Promise<void>; // Called when queue becomes empty and all tasks complete
   abortSignal?: AbortSignal; // Allow cancellation of queue
+  interval?: number; // Length of the sliding rate limit window in milliseconds
+  intervalCap?: number; // Maximum number of tasks started within any `interval` window
+  tokenBucket?: TokenBucketOptions; // Rate limit with bursts, combined with intervalCap if both are set
+  timeout?: number; // Milliseconds a task may run before it is aborted and its slot freed
+  clock?: Clock; // Time source for rate limits and timeouts (default: system clock)
+  instrumentation?: Instrumentation; // Receives queued, started and finished events for every task
+  logger?: Logger; // Where callback errors are logged (default: the global default logger)
+}
+
+export interface TokenBucketOptions {
+  rate: number; // Tokens added per `interval`, each task start takes one token
+  interval?: number; // Refill period in milliseconds (default: 1000)
+  burst?: number; // Bucket capacity, i.e. tasks that may start at once (default: rate)
+}
+
+export interface QueueTaskContext {
+  signal: AbortSignal; // Aborted when the task times out or is cancelled
+}
+
+export type QueueTask<R> = (context: QueueTaskContext) => Promise<R>;
+
+export interface QueueAddOptions {
+  id?: string; // Identifies the task for cancel and getTask, generated when omitted
+  priority?: number; // Higher priority tasks run first
+  timeout?: number; // Overrides the queue-wide timeout for this task
+  signal?: AbortSignal; // Cancels the task when aborted, whether it is pending or active
+}
+
+/**
+ * Promise returned by `add`, carrying the task id and a way to cancel it
+ */
+export type QueueTaskHandle<R> = Promise<R> & {
+  id: string;
+  cancel: (reason?: unknown) => boolean; // Returns false if the task already settled
+};
+
+export interface QueueTaskInfo {
+  id: string;
+  status: 'pending' | 'active';
+  priority: number;
+}
+
+/**
+ * Error used to reject a task that ran longer than its timeout
+ */
+export class QueueTimeoutError extends Error {
+  timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'QueueTimeoutError';
+    this.timeout = timeout;
+
+    // Capture proper stack trace in modern JS environments
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, QueueTimeoutError);
+    }
+  }
+}
+
+/**
+ * Error used to reject a task that was cancelled
+ */
+export class QueueCancelError extends Error {
+  id: string;
+  reason?: unknown; // Reason passed to cancel, or of the aborted signal
+
+  constructor(message: string, id: string, reason?: unknown) {
+    super(message);
+    this.name = 'QueueCancelError';
+    this.id = id;
+    this.reason = reason;
+
+    // Capture proper stack trace in modern JS environments
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, QueueCancelError);
+    }
+  }
 }
 
 export interface QueueStats {
@@ -14,15 +102,102 @@ export interface QueueStats {
   active: number; // Tasks currently processing
   completed: number; // Tasks successfully completed
   errors: number; // Tasks that resulted in errors
+  timeouts: number; // Tasks that timed out, not included in errors
+  cancelled: number; // Tasks cancelled by id, handle, signal or clear(), not included in errors
   total: number; // Total tasks ever added
+  throttled: number; // Tasks held back by the rate limit
+  nextSlotIn: number; // Milliseconds until the rate limit allows another task to start
+}
+
+interface QueueEntry {
+  id: string;
+  task: QueueTask<any>;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+  priority: number;
+  timeout?: number;
+  seq: number; // Insertion order, used to count each throttled task once
+  queuedAt: number;
+  controller: AbortController;
+  detach?: () => void; // Removes the listener on the caller's signal
+}
+
+interface RateLimiter {
+  tryAcquire: () => boolean; // Takes a slot if one is available
+  waitTime: () => number; // Milliseconds until a slot becomes available
+}
+
+// Combines the sliding window and token bucket limits configured on the queue
+function createRateLimiter(config: QueueOptions, clock: Clock): RateLimiter | null {
+  const windowSize = config.interval ?? 0;
+  const windowCap = config.intervalCap ?? Infinity;
+  const useWindow = windowSize > 0 && windowCap < Infinity;
+  const bucket = config.tokenBucket;
+
+  if (!useWindow && !bucket) {
+    return null;
+  }
+
+  const starts: number[] = []; // Start times within the current window
+  const refillInterval = bucket?.interval ?? 1000;
+  const capacity = bucket ? (bucket.burst ?? bucket.rate) : 0;
+  let tokens = capacity;
+  let lastRefill = clock.now();
+
+  function refill(now: number) {
+    if (!bucket) return;
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) * bucket.rate) / refillInterval);
+    lastRefill = now;
+  }
+
+  function waitTime(): number {
+    const now = clock.now();
+    let wait = 0;
+
+    if (useWindow) {
+      while (starts.length > 0 && starts[0] <= now - windowSize) {
+        starts.shift();
+      }
+      if (starts.length >= windowCap) {
+        wait = starts[starts.length - windowCap] + windowSize - now;
+      }
+    }
+
+    if (bucket) {
+      refill(now);
+      if (tokens < 1) {
+        wait = Math.max(wait, Math.ceil(((1 - tokens) * refillInterval) / bucket.rate));
+      }
+    }
+
+    return wait;
+  }
+
+  return {
+    tryAcquire: () => {
+      if (waitTime() > 0) {
+        return false;
+      }
+      if (useWindow) {
+        starts.push(clock.now());
+      }
+      if (bucket) {
+        tokens -= 1;
+      }
+      return true;
+    },
+    waitTime,
+  };
 }
 
 export interface AsyncQueue<T = any> {
-  add: <R>(task: () => Promise<R>, priority?: number) => Promise<R>;
-  addAll: <R>(tasks: Array<() => Promise<R>>) => Promise<R[]>;
+  add: <R>(task: QueueTask<R>, options?: number | QueueAddOptions) => QueueTaskHandle<R>; // A number is the priority
+  addAll: <R>(tasks: Array<QueueTask<R>>) => Promise<R[]>;
   pause: () => void;
   resume: () => void;
   clear: () => void;
+  cancel: (id: string, reason?: unknown) => boolean; // Returns false if no pending or active task has the id
+  getTask: (id: string) => QueueTaskInfo | undefined;
   size: () => number;
   activeCount: () => number;
   isPaused: () => boolean;
@@ -46,13 +221,16 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
     ...options,
   };
 
+  const clock = config.clock ?? systemClock;
+  const queueId = nextInstrumentationId();
+
+  const emit = (event: InstrumentationEvent) =>
+    emitEvent(config.instrumentation, event, config.logger);
+
   // Queue state
-  const tasks: Array<{
-    task: () => Promise<any>;
-    resolve: (value: any) => void;
-    reject: (reason: any) => void;
-    priority: number;
-  }> = [];
+  const tasks: QueueEntry[] = [];
+  const pendingById = new Map<string, QueueEntry>();
+  const activeById = new Map<string, { entry: QueueEntry; cancel: (error: Error) => boolean }>();
 
   let activeCount = 0;
   let paused = !config.autoStart;
@@ -61,6 +239,12 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
   let emptyPromise: Promise<void> | null = null;
   let emptyResolve: (() => void) | null = null;
   let needsSort = false;
+  const rateLimiter = createRateLimiter(config, clock);
+  let throttleTimer: TimerHandle | null = null;
+  let lastSeq = 0;
+  let lastGeneratedId = 0;
+  let throttledUpTo = 0; // Tasks with seq up to here were already counted as throttled
+  let uncountedPending = 0; // Pending tasks added after the last throttle
 
   // Stats
   const stats: QueueStats = {
@@ -68,7 +252,11 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
     active: 0,
     completed: 0,
     errors: 0,
+    timeouts: 0,
+    cancelled: 0,
     total: 0,
+    throttled: 0,
+    nextSlotIn: 0,
   };
 
   // Check if aborted
@@ -99,12 +287,34 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
       needsSort = false;
     }
 
+    // Hold the task back until the rate limit frees a slot
+    if (rateLimiter && !rateLimiter.tryAcquire()) {
+      stats.throttled += uncountedPending;
+      uncountedPending = 0;
+      throttledUpTo = lastSeq;
+      scheduleThrottled(rateLimiter.waitTime());
+      return;
+    }
+
     // Take next task
-    const { task, resolve, reject } = tasks.shift()!;
+    const entry = tasks.shift()!;
+    const { id, task, resolve, reject, seq, controller, timeout = config.timeout } = entry;
+    pendingById.delete(id);
+    if (seq > throttledUpTo) {
+      uncountedPending--;
+    }
     activeCount++;
     stats.pending = tasks.length;
     stats.active = activeCount;
 
+    const startedAt = clock.now();
+    emit({
+      type: 'queue:task-started',
+      queue: queueId,
+      id,
+      waited: startedAt - entry.queuedAt,
+    });
+
     // Check if queue is now empty (AFTER updating activeCount)
     if (tasks.length === 0) {
       const currentEmptyResolve = emptyResolve;
@@ -121,24 +331,73 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
           const result = config.onEmpty();
           if (result instanceof Promise) {
             result.catch((err) => {
-              console.error('Error in onEmpty callback:', err);
+              resolveLogger(config.logger).error('Error in onEmpty callback:', err);
             });
           }
         } catch (err) {
-          console.error('Error in onEmpty callback:', err);
+          resolveLogger(config.logger).error('Error in onEmpty callback:', err);
         }
       }
     }
 
+    let timeoutId: TimerHandle | undefined;
+    let settled = false;
+
+    // Free the slot exactly once, whether the task settles, times out or is cancelled first
+    const finish = (): boolean => {
+      if (settled) return false;
+      settled = true;
+      if (timeoutId !== undefined) {
+        clock.clearTimeout(timeoutId);
+      }
+      entry.detach?.();
+      activeById.delete(id);
+      activeCount--;
+      stats.active = activeCount;
+      return true;
+    };
+
+    // Reject the task without waiting for it, the signal tells it to stop
+    const abortActive = (error: Error): boolean => {
+      if (!finish()) return false;
+
+      controller.abort(error);
+      reject(error);
+      const timedOut = error instanceof QueueTimeoutError;
+      emitFinished(id, timedOut ? 'timeout' : 'cancelled', startedAt, error);
+      if (timedOut) {
+        stats.timeouts++;
+        notifyError(error, task);
+      } else {
+        stats.cancelled++;
+      }
+
+      // Check for drain condition
+      checkDrain();
+
+      // Process next task
+      processNext();
+      return true;
+    };
+
+    activeById.set(id, { entry, cancel: abortActive });
+
+    if (timeout !== undefined && timeout > 0 && timeout < Infinity) {
+      timeoutId = clock.setTimeout(() => {
+        abortActive(new QueueTimeoutError(`Task timed out after ${timeout}ms`, timeout));
+      }, timeout);
+    }
+
     // Process the task
     Promise.resolve()
-      .then(() => task())
+      .then(() => task({ signal: controller.signal }))
       .then(
         (result) => {
+          if (!finish()) return;
+
           resolve(result);
           stats.completed++;
-          activeCount--;
-          stats.active = activeCount;
+          emitFinished(id, 'completed', startedAt);
 
           // Check for drain condition
           checkDrain();
@@ -147,23 +406,12 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
           processNext();
         },
         (error) => {
+          if (!finish()) return;
+
           reject(error);
           stats.errors++;
-          activeCount--;
-          stats.active = activeCount;
-
-          if (config.onError) {
-            try {
-              const result = config.onError(error, task);
-              if (result instanceof Promise) {
-                result.catch((err) => {
-                  console.error('Error in onError callback:', err);
-                });
-              }
-            } catch (err) {
-              console.error('Error in onError callback:', err);
-            }
-          }
+          emitFinished(id, 'failed', startedAt, error);
+          notifyError(error, task);
 
           // Check for drain condition
           checkDrain();
@@ -174,6 +422,42 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
       );
   }
 
+  function emitFinished(id: string, status: QueueTaskStatus, startedAt?: number, error?: unknown) {
+    emit({
+      type: 'queue:task-finished',
+      queue: queueId,
+      id,
+      status,
+      duration: startedAt === undefined ? 0 : clock.now() - startedAt,
+      error: error === undefined || error instanceof Error ? error : new Error(String(error)),
+    });
+  }
+
+  function notifyError(error: Error, task: QueueTask<any>) {
+    if (config.onError) {
+      try {
+        const result = config.onError(error, task);
+        if (result instanceof Promise) {
+          result.catch((err) => {
+            resolveLogger(config.logger).error('Error in onError callback:', err);
+          });
+        }
+      } catch (err) {
+        resolveLogger(config.logger).error('Error in onError callback:', err);
+      }
+    }
+  }
+
+  // Retry processing once the rate limit allows another task
+  function scheduleThrottled(delay: number) {
+    if (throttleTimer) return;
+
+    throttleTimer = clock.setTimeout(() => {
+      throttleTimer = null;
+      processMultiple();
+    }, delay);
+  }
+
   // Check if queue is drained (empty and no active tasks)
   function checkDrain() {
     if (tasks.length === 0 && activeCount === 0) {
@@ -191,11 +475,11 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
           const result = config.onDrain();
           if (result instanceof Promise) {
             result.catch((err) => {
-              console.error('Error in onDrain callback:', err);
+              resolveLogger(config.logger).error('Error in onDrain callback:', err);
             });
           }
         } catch (err) {
-          console.error('Error in onDrain callback:', err);
+          resolveLogger(config.logger).error('Error in onDrain callback:', err);
         }
       }
     }
@@ -203,13 +487,24 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
 
   // Clear all pending tasks
   function clear() {
-    for (const { reject } of tasks) {
-      reject(new Error('Queue cleared'));
+    for (const { id, reject, detach } of tasks) {
+      detach?.();
+      const error = new Error('Queue cleared');
+      reject(error);
+      stats.cancelled++;
+      emitFinished(id, 'cancelled', undefined, error);
     }
 
     tasks.length = 0;
+    pendingById.clear();
+    uncountedPending = 0;
     stats.pending = 0;
 
+    if (throttleTimer) {
+      clock.clearTimeout(throttleTimer);
+      throttleTimer = null;
+    }
+
     // Resolve empty promise if it exists
     if (emptyResolve) {
       const currentEmptyResolve = emptyResolve;
@@ -222,6 +517,93 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
     checkDrain();
   }
 
+  // Cancel a single pending or active task
+  function cancel(id: string, reason?: unknown): boolean {
+    const error = new QueueCancelError(`Task "${id}" was cancelled`, id, reason);
+
+    const active = activeById.get(id);
+    if (active) {
+      return active.cancel(error);
+    }
+
+    const entry = pendingById.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    tasks.splice(tasks.indexOf(entry), 1);
+    pendingById.delete(id);
+    if (entry.seq > throttledUpTo) {
+      uncountedPending--;
+    }
+    entry.detach?.();
+    entry.controller.abort(error);
+    entry.reject(error);
+    stats.pending = tasks.length;
+    stats.cancelled++;
+    emitFinished(id, 'cancelled', undefined, error);
+
+    // Resolve empty promise if this was the last pending task
+    if (tasks.length === 0 && emptyResolve) {
+      const currentEmptyResolve = emptyResolve;
+      emptyPromise = null;
+      emptyResolve = null;
+      currentEmptyResolve();
+    }
+
+    // Check drain condition
+    checkDrain();
+    return true;
+  }
+
+  // Generated ids skip ones callers picked themselves, e.g. `task-2` passed to add
+  function generateId(): string {
+    let id: string;
+    do {
+      id = `task-${++lastGeneratedId}`;
+    } while (pendingById.has(id) || activeById.has(id));
+    return id;
+  }
+
+  // Create a pending entry, wiring the caller's signal to cancellation
+  function createEntry(
+    task: QueueTask<any>,
+    resolve: (value: any) => void,
+    reject: (reason: any) => void,
+    options: QueueAddOptions
+  ): QueueEntry {
+    const seq = ++lastSeq;
+    const entry: QueueEntry = {
+      id: options.id ?? generateId(),
+      task,
+      resolve,
+      reject,
+      priority: options.priority ?? 0,
+      timeout: options.timeout,
+      seq,
+      queuedAt: clock.now(),
+      controller: new AbortController(),
+    };
+
+    const { signal } = options;
+    if (signal) {
+      const abortHandler = () => cancel(entry.id, signal.reason);
+      signal.addEventListener('abort', abortHandler, { once: true });
+      entry.detach = () => signal.removeEventListener('abort', abortHandler);
+    }
+
+    tasks.push(entry);
+    pendingById.set(entry.id, entry);
+    uncountedPending++;
+    emit({
+      type: 'queue:task-queued',
+      queue: queueId,
+      id: entry.id,
+      priority: entry.priority,
+    });
+    return entry;
+  }
+
   // Try to process multiple tasks if concurrency allows
   function processMultiple() {
     const available = config.concurrency - activeCount;
@@ -233,37 +615,61 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
 
   // Create queue API
   const queue: AsyncQueue<T> = {
-    add: <R>(task: () => Promise<R>, priority = 0): Promise<R> => {
+    add: <R>(task: QueueTask<R>, options: number | QueueAddOptions = {}): QueueTaskHandle<R> => {
+      const addOptions = typeof options === 'number' ? { priority: options } : options;
+      const id = addOptions.id ?? generateId();
+      // Tasks refused up front get a rejected handle that can't cancel anything
+      const handle = (error: Error | null, promise?: Promise<R>): QueueTaskHandle<R> =>
+        Object.assign(promise ?? Promise.reject(error), {
+          id,
+          cancel: (reason?: unknown) => (promise ? cancel(id, reason) : false),
+        });
+
       if (aborted) {
-        return Promise.reject(new Error('Queue aborted'));
+        return handle(new Error('Queue aborted'));
       }
 
-      return new Promise<R>((resolve, reject) => {
-        tasks.push({ task, resolve, reject, priority });
-        needsSort = true;
-        stats.pending = tasks.length;
+      if (pendingById.has(id) || activeById.has(id)) {
+        return handle(new Error(`Task "${id}" is already in the queue`));
+      }
+
+      if (addOptions.signal?.aborted) {
         stats.total++;
+        stats.cancelled++;
+        return handle(
+          new QueueCancelError(`Task "${id}" was cancelled`, id, addOptions.signal.reason)
+        );
+      }
 
-        // Initialize promises if queue was previously empty and idle
-        if (tasks.length === 1 && activeCount === 0) {
-          if (!drainPromise && !drainResolve) {
-            drainPromise = new Promise<void>((resolve) => {
-              drainResolve = resolve;
-            });
-          }
+      return handle(
+        null,
+        new Promise<R>((resolve, reject) => {
+          createEntry(task, resolve, reject, { ...addOptions, id });
+          needsSort = true;
+          stats.pending = tasks.length;
+          stats.total++;
 
-          if (!emptyPromise && !emptyResolve) {
-            emptyPromise = new Promise<void>((resolve) => {
-              emptyResolve = resolve;
-            });
+          // Initialize promises if queue was previously empty and idle
+          if (tasks.length === 1 && activeCount === 0) {
+            if (!drainPromise && !drainResolve) {
+              drainPromise = new Promise<void>((resolve) => {
+                drainResolve = resolve;
+              });
+            }
+
+            if (!emptyPromise && !emptyResolve) {
+              emptyPromise = new Promise<void>((resolve) => {
+                emptyResolve = resolve;
+              });
+            }
           }
-        }
 
-        processNext();
-      });
+          processNext();
+        })
+      );
     },
 
-    addAll: <R>(newTasks: Array<() => Promise<R>>): Promise<R[]> => {
+    addAll: <R>(newTasks: Array<QueueTask<R>>): Promise<R[]> => {
       if (aborted) {
         return Promise.reject(new Error('Queue aborted'));
       }
@@ -275,7 +681,7 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
       const promises = newTasks.map((task) => {
         // Create a promise for each task like queue.add does
         return new Promise<R>((resolve, reject) => {
-          tasks.push({ task, resolve, reject, priority: 0 }); // Assuming default priority 0 for addAll
+          createEntry(task, resolve, reject, {}); // Assuming default priority 0 for addAll
           stats.pending++;
           stats.total++;
         });
@@ -319,6 +725,22 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
 
     clear,
 
+    cancel,
+
+    getTask: (id: string) => {
+      const pending = pendingById.get(id);
+      if (pending) {
+        return { id, status: 'pending', priority: pending.priority };
+      }
+
+      const active = activeById.get(id);
+      if (active) {
+        return { id, status: 'active', priority: active.entry.priority };
+      }
+
+      return undefined;
+    },
+
     size: () => tasks.length,
 
     activeCount: () => activeCount,
@@ -366,7 +788,7 @@ export function createAsyncQueue<T = any>(options: Partial<QueueOptions> = {}):
       return drainPromise;
     },
 
-    stats: () => ({ ...stats }),
+    stats: () => ({ ...stats, nextSlotIn: rateLimiter ? rateLimiter.waitTime() : 0 }),
 
     setConcurrency: (concurrency: number) => {
       const oldConcurrency = config.concurrency;
@@ -0,0 +1,117 @@
+// ===== RETRY BUDGET =====
+
+import { systemClock, type Clock } from './clock';
+
+export interface RetryBudgetOptions {
+  ratio: number; // Retries allowed per first attempt, e.g. 0.2 allows 20% extra load
+  minPerSecond: number; // Retries always allowed per second, so low traffic can still retry
+  window: number; // Milliseconds of history used to compute the budget, tracked in tenths
+  getTimestamp?: () => number; // For testing and sync with external time sources
+  clock?: Clock; // Time source used when getTimestamp isn't given (default: system clock)
+}
+
+export interface RetryBudgetStats {
+  attempts: number; // First attempts within the window
+  retries: number; // Retries within the window
+  available: number; // Retries that would currently be allowed
+  refused: number; // Retries refused ever
+}
+
+export interface RetryBudget {
+  recordAttempt: () => void; // Record a first attempt, which earns `ratio` retries
+  tryRetry: () => boolean; // Spend one retry if the budget allows it
+  canRetry: () => boolean; // Check the budget without spending it
+  reset: () => void;
+  stats: () => RetryBudgetStats;
+}
+
+// Counts for one slice of the window, so memory stays constant however many calls are made
+interface BudgetBucket {
+  start: number;
+  attempts: number;
+  retries: number;
+}
+
+const BUCKETS_PER_WINDOW = 10;
+
+/**
+ * Creates a retry budget to share between retrying calls, limiting retries to a ratio
+ * of recent first attempts so an outage doesn't multiply load by `retries + 1`
+ * @param options Configuration options for budget behavior
+ * @returns A budget object to pass as `budget` in retry options
+ */
+export function createRetryBudget(options: Partial<RetryBudgetOptions> = {}): RetryBudget {
+  const clock = options.clock ?? systemClock;
+  const config: RetryBudgetOptions = {
+    ratio: 0.2,
+    minPerSecond: 10,
+    window: 10000,
+    getTimestamp: () => clock.now(),
+    ...options,
+  };
+
+  const buckets: BudgetBucket[] = []; // Oldest first, only slices within the window
+  const bucketWidth = Math.max(1, config.window / BUCKETS_PER_WINDOW);
+  let refused = 0;
+
+  const now = () => config.getTimestamp?.() || clock.now();
+
+  // Drop slices that started outside the window
+  function prune(time: number) {
+    const cutoff = time - config.window;
+    while (buckets.length > 0 && buckets[0].start <= cutoff) {
+      buckets.shift();
+    }
+  }
+
+  // The slice the current time falls into, created on first use
+  function currentBucket(): BudgetBucket {
+    const time = now();
+    prune(time);
+
+    const start = time - (time % bucketWidth);
+    let bucket = buckets[buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, attempts: 0, retries: 0 };
+      buckets.push(bucket);
+    }
+    return bucket;
+  }
+
+  function totals() {
+    prune(now());
+    let attempts = 0;
+    let retries = 0;
+    for (const bucket of buckets) {
+      attempts += bucket.attempts;
+      retries += bucket.retries;
+    }
+    return { attempts, retries };
+  }
+
+  function available(): number {
+    const { attempts, retries } = totals();
+    const allowed = config.minPerSecond * (config.window / 1000) + config.ratio * attempts;
+    return Math.max(0, Math.floor(allowed - retries));
+  }
+
+  return {
+    recordAttempt: () => {
+      currentBucket().attempts++;
+    },
+    tryRetry: () => {
+      if (available() < 1) {
+        refused++;
+        return false;
+      }
+      currentBucket().retries++;
+      return true;
+    },
+    canRetry: () => available() >= 1,
+    reset: () => {
+      buckets.length = 0;
+      refused = 0;
+    },
+    stats: () => ({ ...totals(), available: available(), refused }),
+  };
+}
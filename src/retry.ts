@@ -1,12 +1,139 @@
+import { computeBackoff, type BackoffType, type JitterType } from './backoff';
+import { CircuitOpenError, type CircuitBreaker } from './circuit-breaker';
+import { systemClock, type Clock, type TimerHandle } from './clock';
+import {
+  emitEvent,
+  nextInstrumentationId,
+  type Instrumentation,
+  type InstrumentationEvent,
+} from './instrumentation';
+import { resolveLogger, type Logger } from './logger';
+import type { RetryBudget } from './retry-budget';
+
 export interface RetryOptions {
   retries: number;
   minTimeout: number;
   maxTimeout: number;
   factor: number;
   onRetry?: (error: Error, attempt: number) => void | Promise<void>;
+  onAttempt?: (attempt: RetryAttempt) => void | Promise<void>; // Called after every attempt settles
+  onGiveUp?: (error: RetryError) => void | Promise<void>; // Called before the final RetryError is thrown
   shouldRetry?: (error: Error) => boolean | Promise<boolean>;
-  jitter?: boolean; // Add randomness to backoff
+  retryOnResult?: (result: any, attempt: number) => boolean | Promise<boolean>; // Retry resolved values too, e.g. `{ status: 'pending' }`
+  backoff?: BackoffType; // How delays grow from minTimeout (default 'exponential')
+  jitter?: boolean | JitterType; // Add randomness to backoff, true means 'equal'
   abortSignal?: AbortSignal; // Allow cancellation of retries
+  attemptTimeout?: number; // Abort and fail a single attempt after this many milliseconds
+  circuitBreaker?: CircuitBreaker; // Run attempts through a breaker, stop retrying while it is open
+  budget?: RetryBudget; // Share a retry budget between calls, stop retrying once it is spent
+  maxElapsedTime?: number; // Stop retrying this many milliseconds after the first attempt started
+  deadline?: number | Date; // Stop retrying at this timestamp
+  clock?: Clock; // Time source for delays, timeouts and deadlines (default: system clock)
+  instrumentation?: Instrumentation; // Receives attempt and give-up events
+  logger?: Logger; // Where callback errors are logged (default: the global default logger)
+  // Override the backoff delay before a retry, return undefined to keep the computed one.
+  // `now` is the retry clock's time, for turning Retry-After dates into delays
+  getDelay?: (
+    error: Error,
+    attempt: number,
+    computedDelay: number,
+    now: number
+  ) => number | undefined | Promise<number | undefined>;
+}
+
+export interface RetryContext {
+  attempt: number; // 1-based attempt number
+  signal: AbortSignal; // Aborted when the retry is aborted or the attempt times out
+}
+
+export interface RetryAttempt {
+  attempt: number; // 1-based attempt number
+  error?: Error; // Why the attempt failed, undefined when it succeeded
+  startedAt: number; // Timestamp when the attempt started
+  duration: number; // Milliseconds the attempt took
+  delay?: number; // Milliseconds waited before the next attempt, set once the backoff is computed
+}
+
+export type RetryOperation<T> = (context: RetryContext) => Promise<T>;
+
+export type RetryStrategy = (error: Error) => boolean;
+
+// Error codes from Node.js and undici sockets that are worth retrying
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+// Statuses that usually mean "try again later": timeout, too early, rate limited and 5xx gateway issues
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE', 'PUT', 'DELETE']);
+
+type HttpErrorLike = {
+  status?: unknown;
+  statusCode?: unknown;
+  code?: unknown;
+  method?: unknown;
+  cause?: HttpErrorLike;
+  response?: { status?: unknown; statusCode?: unknown };
+  config?: { method?: unknown };
+  request?: { method?: unknown };
+  options?: { method?: unknown };
+};
+
+/**
+ * Reads the HTTP status from an error as thrown by fetch wrappers, axios, got or undici
+ * (`status`, `statusCode`, `response.status` or `response.statusCode`)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+
+  const source = error as HttpErrorLike;
+  const status =
+    source.status ?? source.statusCode ?? source.response?.status ?? source.response?.statusCode;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Reads a system error code such as ECONNRESET from an error or its `cause`
+ * (fetch in Node.js throws `TypeError('fetch failed')` with the code on the cause)
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+
+  const source = error as HttpErrorLike;
+  const code = source.code ?? source.cause?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+function getRequestMethod(error: Error): string | undefined {
+  const source = error as HttpErrorLike;
+  const method =
+    source.method ?? source.config?.method ?? source.request?.method ?? source.options?.method;
+  return typeof method === 'string' ? method.toUpperCase() : undefined;
+}
+
+function isNetworkError(error: Error): boolean {
+  if (error.name === 'AbortError') return false;
+
+  const code = getErrorCode(error);
+  if (code !== undefined && TRANSIENT_ERROR_CODES.has(code)) return true;
+
+  return error instanceof TypeError && error.message.includes('fetch failed');
+}
+
+// Prefer the status property, falling back to a status at the start of the message
+function statusMatches(error: Error, pattern: RegExp): boolean {
+  const status = getErrorStatus(error);
+  return status !== undefined ? pattern.test(String(status)) : pattern.test(error.message);
 }
 
 /**
@@ -22,40 +149,176 @@ export const RetryStrategies = {
    * Only retry on network errors, not on HTTP 4xx client errors
    */
   NETWORK_ONLY: (error: Error) => {
-    if (error.name === 'AbortError') return false;
-
-    // Retry if it's a network error but not a 4xx client error
-    // Note: Parsing error messages for status codes can be brittle.
-    // Consider checking specific error types or properties (e.g., error.status) if available.
-    const isNetworkError = error instanceof TypeError && error.message.includes('fetch failed');
-    const isClientError = error instanceof Error && /^(4\d\d)/.test(error.message);
-
-    return isNetworkError && !isClientError;
+    // Note: errors without a status property fall back to parsing the message
+    return isNetworkError(error) && !statusMatches(error, /^(4\d\d)/);
   },
 
   /**
    * Retry on server errors (5xx) but not on client errors (4xx)
    */
   SERVER_ERRORS: (error: Error) => {
-    // Note: Parsing error messages for status codes can be brittle.
-    // Consider checking specific error types or properties (e.g., error.status) if available.
-    return error instanceof Error && /^(5\d\d)/.test(error.message);
+    return error instanceof Error && statusMatches(error, /^(5\d\d)/);
+  },
+
+  /**
+   * Retry on statuses that signal a temporary condition: 408, 425, 429, 500, 502, 503 and 504
+   */
+  RETRYABLE_STATUS: (error: Error) => {
+    const status = getErrorStatus(error);
+    return status !== undefined && RETRYABLE_STATUSES.has(status);
+  },
+
+  /**
+   * Retry on network errors and retryable statuses, the usual choice for HTTP calls
+   */
+  TRANSIENT: (error: Error) => {
+    return isNetworkError(error) || RetryStrategies.RETRYABLE_STATUS(error);
+  },
+
+  /**
+   * Only retry requests with an idempotent method (GET, HEAD, OPTIONS, TRACE, PUT, DELETE).
+   * Errors that don't carry a method are allowed, combine with another strategy to narrow them.
+   */
+  IDEMPOTENT_ONLY: (error: Error) => {
+    const method = getRequestMethod(error);
+    return method === undefined || IDEMPOTENT_METHODS.has(method);
   },
 };
 
+/**
+ * Combines strategies so an error is retried only when all of them agree
+ * @example combineStrategies(RetryStrategies.TRANSIENT, RetryStrategies.IDEMPOTENT_ONLY)
+ */
+export function combineStrategies(...strategies: RetryStrategy[]): RetryStrategy {
+  return (error) => strategies.every((strategy) => strategy(error));
+}
+
+/**
+ * Inverts a strategy, e.g. `not(RetryStrategies.SERVER_ERRORS)`
+ */
+export function not(strategy: RetryStrategy): RetryStrategy {
+  return (error) => !strategy(error);
+}
+
+/**
+ * Reads a server-provided retry delay in milliseconds from an error's `retryAfter`
+ * property or its `Retry-After` header (`error.headers` or `error.response.headers`).
+ * Numbers are seconds like the header; HTTP dates are converted to the time remaining.
+ * @param error The error to read the delay from
+ * @param now Current timestamp that dates are measured from (default: Date.now())
+ */
+export function getRetryAfter(error: unknown, now = Date.now()): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+
+  const source = error as {
+    retryAfter?: unknown;
+    headers?: unknown;
+    response?: { headers?: unknown };
+  };
+  const value =
+    source.retryAfter ??
+    readRetryAfterHeader(source.headers) ??
+    readRetryAfterHeader(source.response?.headers);
+
+  if (value instanceof Date) {
+    return Math.max(0, value.getTime() - now);
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value * 1000 : undefined;
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+      return parseFloat(trimmed) * 1000;
+    }
+    const date = Date.parse(trimmed);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+  return undefined;
+}
+
+// Supports fetch-style Headers objects and plain header records
+function readRetryAfterHeader(headers: unknown): unknown {
+  if (!headers || typeof headers !== 'object') return undefined;
+
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    return (headers as { get: (name: string) => unknown }).get('retry-after') ?? undefined;
+  }
+
+  const record = headers as Record<string, unknown>;
+  return record['retry-after'] ?? record['Retry-After'];
+}
+
+/**
+ * Standard `getDelay` hooks
+ */
+export const RetryDelays = {
+  /**
+   * Wait as long as the server asked via Retry-After, falling back to the computed backoff
+   */
+  RETRY_AFTER: (error: Error, _attempt: number, computedDelay: number, now?: number) =>
+    getRetryAfter(error, now) ?? computedDelay,
+};
+
+/**
+ * Why retrying stopped
+ */
+export type RetryErrorReason =
+  | 'retries-exhausted' // Every allowed attempt failed
+  | 'not-retryable' // shouldRetry rejected the error
+  | 'circuit-open' // The circuit breaker refused the call
+  | 'budget-exhausted' // The shared retry budget refused another retry
+  | 'deadline'; // maxElapsedTime or the deadline left no time for another attempt
+
+/**
+ * Error used to fail an attempt whose result was rejected by `retryOnResult`
+ */
+export class RetryResultError extends Error {
+  result: unknown;
+
+  constructor(message: string, result: unknown) {
+    super(message);
+    this.name = 'RetryResultError';
+    this.result = result;
+
+    // Capture proper stack trace in modern JS environments
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RetryResultError);
+    }
+  }
+}
+
 /**
  * Custom error class for retry failures that preserves the original error
  */
 export class RetryError extends Error {
   originalError: Error;
   attempts: number;
+  reason: RetryErrorReason;
+  history: RetryAttempt[]; // Every failed attempt, oldest first
+  errors: Error[]; // The error of each failed attempt, like AggregateError#errors
+  lastResult?: unknown; // The last value rejected by retryOnResult, when that ended the retries
 
-  constructor(message: string, originalError: Error, attempts: number) {
+  constructor(
+    message: string,
+    originalError: Error,
+    attempts: number,
+    reason: RetryErrorReason = 'retries-exhausted',
+    history: RetryAttempt[] = []
+  ) {
     super(message);
     this.name = 'RetryError';
     this.originalError = originalError;
     this.attempts = attempts;
-    
+    this.reason = reason;
+    this.history = history;
+    this.lastResult = originalError instanceof RetryResultError ? originalError.result : undefined;
+    this.errors = history.length
+      ? history.map((entry) => entry.error ?? originalError)
+      : [originalError];
+
     // Capture proper stack trace in modern JS environments
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, RetryError);
@@ -63,11 +326,91 @@ export class RetryError extends Error {
   }
 }
 
+/**
+ * Error used to fail an attempt that ran longer than `attemptTimeout`
+ */
+export class AttemptTimeoutError extends Error {
+  timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'AttemptTimeoutError';
+    this.timeout = timeout;
+
+    // Capture proper stack trace in modern JS environments
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, AttemptTimeoutError);
+    }
+  }
+}
+
 /**
  * Constant for abort error message to ensure consistency
  */
 const ABORT_ERROR_MESSAGE = 'Retry operation aborted';
 
+/**
+ * Runs a single attempt with its own abort signal, rejecting as soon as the
+ * outer signal aborts or the attempt times out, even if the operation ignores the signal
+ */
+function runAttempt<T>(
+  operation: RetryOperation<T>,
+  attempt: number,
+  config: RetryOptions
+): Promise<T> {
+  const { abortSignal, attemptTimeout, clock = systemClock } = config;
+  const controller = new AbortController();
+  let timeoutId: TimerHandle | undefined;
+  let abortHandler: (() => void) | undefined;
+
+  const cleanup = () => {
+    if (timeoutId) clock.clearTimeout(timeoutId);
+    if (abortSignal && abortHandler) {
+      abortSignal.removeEventListener('abort', abortHandler);
+    }
+  };
+
+  return new Promise<T>((resolve, reject) => {
+    const fail = (error: Error) => {
+      cleanup();
+      controller.abort(error);
+      reject(error);
+    };
+
+    if (abortSignal) {
+      abortHandler = () => fail(new Error(ABORT_ERROR_MESSAGE));
+      abortSignal.addEventListener('abort', abortHandler, { once: true });
+    }
+
+    if (attemptTimeout !== undefined && attemptTimeout > 0 && attemptTimeout < Infinity) {
+      timeoutId = clock.setTimeout(() => {
+        fail(
+          new AttemptTimeoutError(
+            `Attempt ${attempt} timed out after ${attemptTimeout}ms`,
+            attemptTimeout
+          )
+        );
+      }, attemptTimeout);
+    }
+
+    try {
+      operation({ attempt, signal: controller.signal }).then(
+        (result) => {
+          cleanup();
+          resolve(result);
+        },
+        (error) => {
+          cleanup();
+          reject(error);
+        }
+      );
+    } catch (error) {
+      cleanup();
+      reject(error);
+    }
+  });
+}
+
 /**
  * Retries an asynchronous operation with configurable exponential backoff
  * @param operation The async function to retry
@@ -76,7 +419,7 @@ const ABORT_ERROR_MESSAGE = 'Retry operation aborted';
  * @throws RetryError with .originalError property containing the last error
  */
 export async function asyncRetry<T>(
-  operation: () => Promise<T>,
+  operation: RetryOperation<T>,
   options: Partial<RetryOptions> = {}
 ): Promise<T> {
   const config: RetryOptions = {
@@ -88,103 +431,234 @@ export async function asyncRetry<T>(
     ...options,
   };
 
+  const clock = config.clock ?? systemClock;
+  const retryId = nextInstrumentationId();
+
+  const emit = (event: InstrumentationEvent) =>
+    emitEvent(config.instrumentation, event, config.logger);
+
   let lastError: Error | undefined;
   let finalAttemptCount = 0;
+  let reason: RetryErrorReason = 'retries-exhausted';
+  const history: RetryAttempt[] = [];
+  let prevDelay = config.minTimeout; // Used by decorrelated and custom backoff
+
+  // Don't let hook errors interrupt the retry flow
+  const notify = async <A>(hook: ((arg: A) => void | Promise<void>) | undefined, arg: A) => {
+    if (!hook) return;
+    try {
+      await Promise.resolve(hook(arg));
+    } catch (callbackError) {
+      resolveLogger(config.logger).error('Error in retry callback:', callbackError);
+    }
+  };
 
   // Check if already aborted before starting
   if (config.abortSignal?.aborted) {
     throw new Error(ABORT_ERROR_MESSAGE);
   }
 
+  config.budget?.recordAttempt();
+
+  // Wall-clock bound from maxElapsedTime and deadline, whichever comes first
+  const deadlineAt = Math.min(
+    config.maxElapsedTime !== undefined ? clock.now() + config.maxElapsedTime : Infinity,
+    config.deadline !== undefined ? Number(config.deadline) : Infinity
+  );
+  let lastChance = false; // The previous sleep was shortened to fit the deadline
+
   for (let attempt = 0; attempt <= config.retries; attempt++) {
     finalAttemptCount = attempt + 1;
-    
+    const startedAt = clock.now();
+    emit({
+      type: 'retry:attempt-start',
+      id: retryId,
+      attempt: finalAttemptCount,
+    });
+
     try {
-      return await operation();
+      const result = config.circuitBreaker
+        ? await config.circuitBreaker.execute(
+            () => runAttempt(operation, finalAttemptCount, config),
+            config.abortSignal
+          )
+        : await runAttempt(operation, finalAttemptCount, config);
+
+      // Treat results the caller doesn't accept yet like a failed attempt
+      if (
+        config.retryOnResult &&
+        (await Promise.resolve(config.retryOnResult(result, finalAttemptCount)))
+      ) {
+        throw new RetryResultError(
+          `Attempt ${finalAttemptCount} returned a result rejected by retryOnResult`,
+          result
+        );
+      }
+
+      const duration = clock.now() - startedAt;
+      emit({
+        type: 'retry:attempt-end',
+        id: retryId,
+        attempt: finalAttemptCount,
+        duration,
+      });
+      await notify(config.onAttempt, { attempt: finalAttemptCount, startedAt, duration });
+      return result;
     } catch (error) {
       // Ensure error is properly typed
       lastError = error instanceof Error ? error : new Error(String(error));
-      
+
+      const record: RetryAttempt = {
+        attempt: finalAttemptCount,
+        error: lastError,
+        startedAt,
+        duration: clock.now() - startedAt,
+      };
+      history.push(record);
+      emit({
+        type: 'retry:attempt-end',
+        id: retryId,
+        attempt: finalAttemptCount,
+        duration: record.duration,
+        error: lastError,
+      });
+      await notify(config.onAttempt, record);
+
       // Check if operation has been aborted
       if (config.abortSignal?.aborted) {
         throw new Error(ABORT_ERROR_MESSAGE);
       }
-      
-      // Exit if this was the last attempt
+
+      // Exit if this was the last attempt, or the circuit refuses further calls, including
+      // when this failure is what opened it
+      if (lastError instanceof CircuitOpenError || config.circuitBreaker?.isOpen()) {
+        reason = 'circuit-open';
+        break;
+      }
       if (attempt === config.retries) {
         break;
       }
-      
-      // Check if we should retry based on the error
-      if (config.shouldRetry && !(await Promise.resolve(config.shouldRetry(lastError)))) {
+
+      // Check if we should retry based on the error, rejected results were already checked
+      if (
+        config.shouldRetry &&
+        !(lastError instanceof RetryResultError) &&
+        !(await Promise.resolve(config.shouldRetry(lastError)))
+      ) {
+        reason = 'not-retryable';
+        break;
+      }
+
+      if (lastChance || clock.now() >= deadlineAt) {
+        reason = 'deadline';
+        break;
+      }
+
+      // Spend from the shared budget last, so only retries that would happen are counted
+      if (config.budget && !config.budget.tryRetry()) {
+        reason = 'budget-exhausted';
         break;
       }
-      
+
       // Call onRetry callback if provided
       if (config.onRetry) {
         try {
           await Promise.resolve(config.onRetry(lastError, attempt + 1));
         } catch (callbackError) {
           // Don't let callback errors interrupt the retry flow
-          console.error('Error in retry callback:', callbackError);
+          resolveLogger(config.logger).error('Error in retry callback:', callbackError);
         }
       }
-      
-      // Calculate backoff timeout
-      let timeout = Math.min(
-        config.maxTimeout,
-        config.minTimeout * Math.pow(config.factor, attempt)
+
+      // Calculate backoff timeout, with jitter if enabled to prevent thundering herd problem
+      let timeout = computeBackoff(
+        {
+          type: config.backoff ?? 'exponential',
+          base: config.minTimeout,
+          factor: config.factor,
+          maxDelay: config.maxTimeout,
+          jitter: config.jitter === true ? 'equal' : config.jitter || undefined,
+        },
+        attempt + 1,
+        prevDelay
       );
-      
-      // Add jitter if enabled to prevent thundering herd problem
       if (config.jitter) {
-        const jitterFactor = 0.5 + Math.random() * 0.5; // Random between 0.5 and 1
-        timeout = Math.floor(timeout * jitterFactor);
+        timeout = Math.floor(timeout);
+      }
+
+      // Let the caller replace the delay, e.g. with a server-provided Retry-After
+      if (config.getDelay) {
+        const hinted = await Promise.resolve(
+          config.getDelay(lastError, attempt + 1, timeout, clock.now())
+        );
+        if (hinted !== undefined && hinted >= 0) {
+          timeout = Math.min(config.maxTimeout, hinted);
+        }
       }
-      
+
+      // Shorten a sleep that would overrun the deadline, the attempt after it is the last one
+      const remaining = deadlineAt - clock.now();
+      if (timeout >= remaining) {
+        timeout = Math.max(0, remaining);
+        lastChance = true;
+      }
+      record.delay = timeout;
+      prevDelay = timeout;
+
       // Create abort-aware timeout
       await new Promise<void>((resolve, reject) => {
-        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        let timeoutId: TimerHandle | undefined;
         let abortHandler: (() => void) | undefined;
-        
+
         const cleanup = () => {
-          if (timeoutId) clearTimeout(timeoutId);
+          if (timeoutId) clock.clearTimeout(timeoutId);
           if (config.abortSignal && abortHandler) {
             config.abortSignal.removeEventListener('abort', abortHandler);
           }
         };
-        
+
         // Handle abort signal
         if (config.abortSignal) {
           abortHandler = () => {
             cleanup();
             reject(new Error(ABORT_ERROR_MESSAGE));
           };
-          
+
           if (config.abortSignal.aborted) {
             // If already aborted before timeout starts
             abortHandler();
             return;
           }
-          
+
           config.abortSignal.addEventListener('abort', abortHandler, { once: true });
         }
-        
-        timeoutId = setTimeout(() => {
+
+        timeoutId = clock.setTimeout(() => {
           cleanup();
           resolve();
         }, timeout);
       });
     }
   }
-  
+
   // Throw RetryError if lastError is defined
   if (lastError) {
-    throw new RetryError(
+    const retryError = new RetryError(
       `Failed after ${finalAttemptCount} attempt(s): ${lastError.message}`,
       lastError,
-      finalAttemptCount
+      finalAttemptCount,
+      reason,
+      history
     );
+    emit({
+      type: 'retry:give-up',
+      id: retryId,
+      attempts: finalAttemptCount,
+      reason,
+      error: retryError,
+    });
+    await notify(config.onGiveUp, retryError);
+    throw retryError;
   } else {
     // Should theoretically not happen if loop completed, but handle defensively
     throw new Error(`Retry mechanism failed unexpectedly after ${finalAttemptCount} attempts.`);
@@ -198,10 +672,47 @@ export async function asyncRetry<T>(
  */
 export function createAsyncRetry(defaultOptions: Partial<RetryOptions>) {
   return function retryWithOptions<T>(
-    operation: () => Promise<T>,
+    operation: RetryOperation<T>,
     overrideOptions: Partial<RetryOptions> = {}
   ): Promise<T> {
     return asyncRetry(operation, { ...defaultOptions, ...overrideOptions });
   };
 }
 
+/**
+ * Wraps a function so every call is retried, keeping its parameter and return types.
+ * `fn` does not receive the `RetryContext`, so `attemptTimeout` cannot abort it;
+ * use `asyncRetry` directly when the operation needs the signal.
+ * @param fn The async function to wrap
+ * @param options Configuration options for retry behavior
+ * @returns A function with the same signature as `fn`
+ */
+export function withRetry<A extends unknown[], R>(
+  fn: (...args: A) => Promise<R>,
+  options: Partial<RetryOptions> = {}
+): (...args: A) => Promise<R> {
+  return function (this: unknown, ...args: A): Promise<R> {
+    return asyncRetry(() => fn.apply(this, args), options);
+  };
+}
+
+/**
+ * Method decorator (TypeScript 5 standard decorators) that retries every call of an async method.
+ * Like `withRetry`, the method does not receive the `RetryContext`.
+ * @param options Configuration options for retry behavior
+ * @example
+ * class UserService {
+ *   @retryable({ retries: 3 })
+ *   async getUser(id: string) { ... }
+ * }
+ */
+export function retryable(options: Partial<RetryOptions> = {}) {
+  return function <This, A extends unknown[], R>(
+    method: (this: This, ...args: A) => Promise<R>,
+    _context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => Promise<R>>
+  ): (this: This, ...args: A) => Promise<R> {
+    return function (this: This, ...args: A): Promise<R> {
+      return asyncRetry(() => method.apply(this, args), options);
+    };
+  };
+}
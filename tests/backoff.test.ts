@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { applyJitter, computeBackoff } from '../src/backoff';
+
+describe('computeBackoff', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const delays = (type: Parameters<typeof computeBackoff>[0]['type'], count = 5) =>
+    Array.from({ length: count }, (_, i) => computeBackoff({ type, base: 100 }, i + 1));
+
+  it('should compute the built-in progressions', () => {
+    expect(delays('fixed')).toEqual([100, 100, 100, 100, 100]);
+    expect(delays('linear')).toEqual([100, 200, 300, 400, 500]);
+    expect(delays('exponential')).toEqual([100, 200, 400, 800, 1600]);
+    expect(delays('fibonacci')).toEqual([100, 100, 200, 300, 500]);
+  });
+
+  it('should use the factor and cap the delay at maxDelay', () => {
+    expect(computeBackoff({ type: 'exponential', base: 100, factor: 3 }, 3)).toBe(900);
+    expect(computeBackoff({ type: 'exponential', base: 100, maxDelay: 250 }, 3)).toBe(250);
+  });
+
+  it('should pick decorrelated delays between base and three times the previous delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeBackoff({ type: 'decorrelated', base: 100 }, 1)).toBe(300);
+    expect(computeBackoff({ type: 'decorrelated', base: 100 }, 2, 300)).toBe(900);
+    expect(computeBackoff({ type: 'decorrelated', base: 100, maxDelay: 500 }, 3, 900)).toBe(500);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(computeBackoff({ type: 'decorrelated', base: 100 }, 2, 300)).toBe(100);
+  });
+
+  it('should call custom functions with the attempt and previous delay', () => {
+    const custom = vi.fn((attempt: number, prevDelay: number) => prevDelay + attempt * 10);
+
+    expect(computeBackoff({ type: custom, base: 100, maxDelay: 150 }, 2, 120)).toBe(140);
+    expect(custom).toHaveBeenCalledWith(2, 120);
+    expect(computeBackoff({ type: custom, base: 100, maxDelay: 150 }, 5, 120)).toBe(150);
+  });
+
+  it('should apply jitter after the cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(computeBackoff({ type: 'fixed', base: 100, maxDelay: 80, jitter: 'equal' }, 1)).toBe(40);
+  });
+});
+
+describe('applyJitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should randomize within the range of each jitter type', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(applyJitter(1000, 'full')).toBe(0);
+    expect(applyJitter(1000, 'equal')).toBe(500);
+    expect(applyJitter(1000, 'spread')).toBe(850);
+
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(applyJitter(1000, 'full')).toBe(1000);
+    expect(applyJitter(1000, 'equal')).toBe(1000);
+    expect(applyJitter(1000, 'spread')).toBe(1150);
+  });
+});
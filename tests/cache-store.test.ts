@@ -0,0 +1,359 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createFifoStore,
+  createFileStore,
+  createLfuStore,
+  createLruStore,
+  createMapStore,
+  createTinyLfuStore,
+  type CacheStore,
+  type FileStoreFs,
+} from '../src/cache-store';
+import { createAsyncCache, type CacheEntry } from '../src/cache';
+
+// In-memory stand-in for fs/promises
+const createMockFs = (files: Record<string, string> = {}) => {
+  const fs = {
+    files,
+    readFile: vi.fn(async (path: string) => {
+      if (!(path in files)) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      return files[path];
+    }),
+    writeFile: vi.fn(async (path: string, data: string) => {
+      files[path] = data;
+    }),
+  };
+  return fs satisfies FileStoreFs;
+};
+
+// Wraps a map store so every method answers asynchronously
+const createAsyncMapStore = <V>(map = new Map<string, V>()): CacheStore<V> => {
+  const store = createMapStore(map);
+  return {
+    get: async (key) => store.get(key),
+    set: async (key, value) => store.set(key, value),
+    delete: async (key) => store.delete(key),
+    keys: async () => store.keys(),
+    clear: async () => store.clear(),
+  };
+};
+
+describe('createLruStore', () => {
+  it('should evict the least recently used item when full', () => {
+    const store = createLruStore<string>({ maxSize: 2 });
+    store.set('a', '1');
+    store.set('b', '2');
+    store.get('a');
+    store.set('c', '3');
+
+    expect(store.has?.('b')).toBe(false);
+    expect(store.keys()).toEqual(['a', 'c']);
+    expect(store.size?.()).toBe(2);
+  });
+
+  it('should notify eviction listeners with the dropped item', () => {
+    const store = createLruStore<string>({ maxSize: 1 });
+    const listener = vi.fn();
+    const unsubscribe = store.onEvict!(listener);
+
+    store.set('a', '1');
+    store.set('a', '2'); // Overwrites don't evict
+    store.set('b', '3');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('a', '2');
+
+    unsubscribe();
+    store.set('c', '4');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should peek without changing the eviction order', () => {
+    const store = createLruStore<string>({ maxSize: 2 });
+    store.set('a', '1');
+    store.set('b', '2');
+
+    expect(store.peek?.('a')).toBe('1');
+    expect(store.peek?.('missing')).toBeUndefined();
+    store.set('c', '3');
+    expect(store.keys()).toEqual(['b', 'c']);
+  });
+
+  it('should report whether a deleted key existed', () => {
+    const store = createLruStore<string>();
+    store.set('a', '1');
+
+    expect(store.delete('a')).toBe(true);
+    expect(store.delete('a')).toBe(false);
+  });
+});
+
+describe('createFifoStore', () => {
+  it('should evict in insertion order regardless of reads', () => {
+    const store = createFifoStore<string>({ maxSize: 2 });
+    const listener = vi.fn();
+    store.onEvict!(listener);
+
+    store.set('a', '1');
+    store.set('b', '2');
+    store.get('a');
+    store.set('a', '3'); // Overwrites keep their position
+    store.set('c', '4');
+
+    expect(store.keys()).toEqual(['b', 'c']);
+    expect(listener).toHaveBeenCalledWith('a', '3');
+  });
+
+  it('should keep one item when maxSize is 0', () => {
+    const store = createFifoStore<string>({ maxSize: 0 });
+    store.set('a', '1');
+    store.set('b', '2');
+    expect(store.keys()).toEqual(['b']);
+  });
+});
+
+describe('createLfuStore', () => {
+  it('should evict the least frequently used item, oldest first on ties', () => {
+    const store = createLfuStore<string>({ maxSize: 3 });
+    const listener = vi.fn();
+    store.onEvict!(listener);
+
+    store.set('a', '1');
+    store.set('b', '2');
+    store.set('c', '3');
+    store.get('a');
+    store.get('a');
+    store.get('c');
+    store.set('d', '4');
+
+    expect(listener).toHaveBeenCalledWith('b', '2');
+    expect(store.keys()).toEqual(['d', 'c', 'a']); // Eviction order
+    store.set('e', '5');
+    expect(listener).toHaveBeenLastCalledWith('d', '4');
+  });
+
+  it('should forget counts of deleted and cleared items', () => {
+    const store = createLfuStore<string>({ maxSize: 2 });
+    store.set('a', '1');
+    store.get('a');
+    expect(store.delete('a')).toBe(true);
+    expect(store.delete('a')).toBe(false);
+
+    store.set('a', '1');
+    store.set('b', '2');
+    store.get('b');
+    store.set('c', '3');
+    expect(store.keys()).toEqual(['c', 'b']);
+
+    store.clear();
+    expect(store.size!()).toBe(0);
+    expect(store.keys()).toEqual([]);
+  });
+
+  it('should keep one item when maxSize is 0', () => {
+    const store = createLfuStore<string>({ maxSize: 0 });
+    store.set('a', '1');
+    store.set('b', '2');
+    expect(store.keys()).toEqual(['b']);
+  });
+});
+
+describe('createTinyLfuStore', () => {
+  it('should keep popular items when a scan passes through', () => {
+    const store = createTinyLfuStore<number>({ maxSize: 10, windowRatio: 0.2 });
+
+    for (let i = 0; i < 8; i++) store.set(`hot${i}`, i);
+    for (let round = 0; round < 3; round++) {
+      for (let i = 0; i < 8; i++) store.get(`hot${i}`);
+    }
+    for (let i = 0; i < 100; i++) store.set(`scan${i}`, i);
+
+    for (let i = 0; i < 8; i++) expect(store.has!(`hot${i}`)).toBe(true);
+    expect(store.size!()).toBe(10);
+  });
+
+  it('should evict through listeners and admit items that become popular', () => {
+    const store = createTinyLfuStore<number>({ maxSize: 2, windowRatio: 0.5 });
+    const listener = vi.fn();
+    store.onEvict!(listener);
+
+    store.set('a', 1);
+    store.set('b', 2); // a moves to the main area
+    store.get('c');
+    store.get('c');
+    store.set('c', 3); // b leaves the window but loses against a
+    expect(listener).toHaveBeenLastCalledWith('b', 2);
+
+    store.set('d', 4); // c is requested more often than a and replaces it
+    expect(listener).toHaveBeenLastCalledWith('a', 1);
+    expect(store.keys()).toEqual(['d', 'c']);
+  });
+});
+
+describe('createMapStore', () => {
+  it('should read and write through the given map', () => {
+    const map = new Map<string, number>();
+    const store = createMapStore(map);
+
+    store.set('a', 1);
+    expect(map.get('a')).toBe(1);
+
+    map.set('b', 2);
+    expect(store.get('b')).toBe(2);
+    expect(store.keys()).toEqual(['a', 'b']);
+
+    store.clear();
+    expect(map.size).toBe(0);
+  });
+});
+
+describe('createFileStore', () => {
+  it('should start empty when the file does not exist', async () => {
+    const fs = createMockFs();
+    const store = createFileStore<number>({ path: 'cache.json', fs });
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it('should persist changes and restore them in a new store', async () => {
+    const fs = createMockFs();
+    const store = createFileStore<number>({ path: 'cache.json', fs });
+
+    await store.set('a', 1);
+    await store.set('b', 2);
+    expect(await store.delete('a')).toBe(true);
+    expect(JSON.parse(fs.files['cache.json'])).toEqual({ b: 2 });
+
+    const restored = createFileStore<number>({ path: 'cache.json', fs });
+    expect(await restored.get('b')).toBe(2);
+    expect(await restored.size?.()).toBe(1);
+    expect(fs.readFile).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not write when deleting a missing key', async () => {
+    const fs = createMockFs({ 'cache.json': '{"a":1}' });
+    const store = createFileStore<number>({ path: 'cache.json', fs });
+
+    expect(await store.delete('missing')).toBe(false);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should restore errors and dates as instances', async () => {
+    const fs = createMockFs();
+    const store = createFileStore({ path: 'cache.json', fs });
+    await store.set('failed', { value: new TypeError('Bad input'), isError: true });
+    await store.set('date', { value: new Date('2024-01-01T00:00:00Z') });
+
+    const restored = createFileStore({ path: 'cache.json', fs });
+    const failed = await restored.get('failed');
+    expect(failed.value).toBeInstanceOf(Error);
+    expect(failed.value).toMatchObject({ name: 'TypeError', message: 'Bad input' });
+    expect(await restored.get('date')).toEqual({ value: new Date('2024-01-01T00:00:00Z') });
+  });
+
+  it('should convert values with the serializer', async () => {
+    const fs = createMockFs();
+    const serializer = {
+      serialize: (value: Uint8Array) => Array.from(value),
+      deserialize: (data: unknown) => Uint8Array.from(data as number[]),
+    };
+    const store = createFileStore({ path: 'cache.json', fs, serializer });
+    await store.set('bytes', Uint8Array.from([1, 2, 3]));
+    expect(JSON.parse(fs.files['cache.json'])).toEqual({ bytes: [1, 2, 3] });
+
+    const restored = createFileStore({ path: 'cache.json', fs, serializer });
+    expect(await restored.get('bytes')).toEqual(Uint8Array.from([1, 2, 3]));
+  });
+});
+
+describe('createAsyncCache with custom stores', () => {
+  let mockTime = 1000;
+  const getTimestamp = () => mockTime;
+
+  beforeEach(() => {
+    mockTime = 1000;
+  });
+
+  it('should keep management methods synchronous for a map store', () => {
+    const map = new Map<string, CacheEntry<string>>();
+    const cache = createAsyncCache<string>({ ttl: 100, getTimestamp, store: createMapStore(map) });
+
+    cache.set('key', 'value');
+    expect(map.get('key')?.value).toBe('value');
+    expect(cache.get('key')).toBe('value');
+    expect(cache.size()).toBe(1);
+    expect(cache.updateTTL('key', 500)).toBe(true);
+    expect(cache.getEntry('key')?.expiry).toBe(1500);
+  });
+
+  it('should cache wrapped function results in an async store', async () => {
+    const map = new Map<string, CacheEntry<string>>();
+    const cache = createAsyncCache<string>({
+      ttl: 100,
+      getTimestamp,
+      store: createAsyncMapStore(map),
+    });
+    const mockFn = vi.fn(async (input: string) => input.toUpperCase());
+    const cachedFn = cache(mockFn);
+
+    expect(await cachedFn('a')).toBe('A');
+    expect(await cachedFn('a')).toBe('A');
+    expect(mockFn).toHaveBeenCalledTimes(1);
+    expect(await cache.has(JSON.stringify(['a']))).toBe(true);
+    expect(await cache.stats()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+  });
+
+  it('should support management methods on an async store', async () => {
+    const cache = createAsyncCache<string>({
+      ttl: 100,
+      getTimestamp,
+      store: createAsyncMapStore(),
+    });
+
+    await cache.set('key1', 'value1');
+    await cache.set('key2', 'value2', 500);
+    expect(await cache.get('key1')).toBe('value1');
+    expect((await cache.getEntry('key2'))?.expiry).toBe(1500);
+
+    mockTime += 200;
+    expect(await cache.updateTTL('key1', 1000)).toBe(true);
+    expect(await cache.updateTTL('missing', 1000)).toBe(false);
+
+    await cache.set('key3', 'value3', 50);
+    mockTime += 100;
+    expect(await cache.prune()).toBe(1);
+    expect(await cache.keys()).toEqual(['key1', 'key2']);
+
+    expect(await cache.delete('key1')).toBe(true);
+    await cache.clear();
+    expect(await cache.size()).toBe(0);
+  });
+
+  it('should reject unsupported snapshots from an async store', async () => {
+    const cache = createAsyncCache<string>({ store: createAsyncMapStore() });
+
+    const result = cache.load({ entries: [] } as any);
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).rejects.toThrow('Unsupported cache snapshot format');
+  });
+
+  it('should warm-start from a file store', async () => {
+    const fs = createMockFs();
+    const mockFn = vi.fn(async (id: number) => ({ id }));
+
+    const first = createAsyncCache({
+      ttl: 100,
+      getTimestamp,
+      store: createFileStore({ path: 'cache.json', fs }),
+    });
+    await first(mockFn)(1);
+
+    const second = createAsyncCache({
+      ttl: 100,
+      getTimestamp,
+      store: createFileStore({ path: 'cache.json', fs }),
+    });
+    expect(await second(mockFn)(1)).toEqual({ id: 1 });
+    expect(mockFn).toHaveBeenCalledTimes(1);
+  });
+});
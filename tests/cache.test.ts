@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createAsyncCache, type AsyncCache } from '../src/cache'; // Update with correct import path
+import { silentLogger } from '../src/logger';
 
 process.on('unhandledRejection', (reason, promise) => {
   console.error('Unhandled Rejection at:', promise, 'reason:', reason);
@@ -363,6 +364,662 @@ describe('createAsyncCache', () => {
   });
 });
 
+describe('request coalescing', () => {
+  it('should share one load between concurrent misses for the same key', async () => {
+    const cache = createAsyncCache<string>({ ttl: 100 });
+    const fn = vi.fn(
+      (id: string) => new Promise<string>((resolve) => setTimeout(() => resolve(`user-${id}`), 10))
+    );
+    const cached = cache(fn);
+
+    const results = await Promise.all([cached('1'), cached('1'), cached('1')]);
+    expect(results).toEqual(['user-1', 'user-1', 'user-1']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(cache.stats()).toMatchObject({ misses: 1, coalesced: 2, hits: 0 });
+
+    // Later calls are served from the cache, different keys load separately
+    await cached('1');
+    await cached('2');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject every joined caller and retry on the next miss', async () => {
+    const cache = createAsyncCache<string>({ ttl: 100 });
+    const fn = vi
+      .fn()
+      .mockImplementationOnce(
+        () => new Promise((_, reject) => setTimeout(() => reject(new Error('Down')), 10))
+      )
+      .mockResolvedValue('ok');
+    const cached = cache(fn);
+
+    const results = await Promise.allSettled([cached('1'), cached('1')]);
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await expect(cached('1')).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('early refresh', () => {
+  it('should reload in the background once inside the refreshAhead window', async () => {
+    let now = 1000;
+    const cache = createAsyncCache<string>({
+      ttl: 100,
+      refreshAhead: 0.2,
+      getTimestamp: () => now,
+    });
+    let version = 0;
+    const fn = vi.fn(async () => `v${++version}`);
+    const cached = cache(fn);
+
+    await cached('key');
+    now += 79;
+    await expect(cached('key')).resolves.toBe('v1');
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    // 20ms before expiry the hit still returns the current value but triggers a reload
+    now += 1;
+    await expect(cached('key')).resolves.toBe('v1');
+    await vi.waitFor(() => expect(cache.get(JSON.stringify(['key']))).toBe('v2'));
+    expect(cache.getEntry(JSON.stringify(['key']))?.expiry).toBe(1180);
+
+    // The reloaded entry is outside the window again
+    await cached('key');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the current value when an early reload fails', async () => {
+    let now = 1000;
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const cache = createAsyncCache<string>({
+      ttl: 100,
+      refreshAhead: 0.5,
+      cacheErrorResults: true,
+      getTimestamp: () => now,
+      logger,
+    });
+    const fn = vi.fn().mockResolvedValueOnce('v1').mockRejectedValue(new Error('Down'));
+    const cached = cache(fn);
+
+    await cached('key');
+    now += 60;
+    await expect(cached('key')).resolves.toBe('v1');
+    await vi.waitFor(() => expect(logger.error).toHaveBeenCalled());
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    await expect(cached('key')).resolves.toBe('v1');
+  });
+
+  it('should refresh probabilistically based on load time and remaining TTL', async () => {
+    let now = 1000;
+    const cache = createAsyncCache<string>({
+      ttl: 1000,
+      probabilisticRefresh: true,
+      getTimestamp: () => now,
+    });
+    const fn = vi.fn(async () => {
+      now += 50; // Each load takes 50ms
+      return 'value';
+    });
+    const cached = cache(fn);
+    const random = vi.spyOn(Math, 'random');
+
+    await cached('key'); // Loaded at 1000, expires at 2000
+    now = 1900;
+
+    // -ln(0.5) * 50ms ≈ 35ms, not enough to reach expiry 100ms away
+    random.mockReturnValue(0.5);
+    await cached('key');
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    // -ln(0.01) * 50ms ≈ 230ms, past expiry so this hit reloads early
+    random.mockReturnValue(0.01);
+    await cached('key');
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    random.mockRestore();
+  });
+});
+
+describe('dynamic TTL', () => {
+  it('should compute the TTL from the result and arguments', async () => {
+    let now = 1000;
+    const cache = createAsyncCache<{ token: string; expiresIn: number }>({
+      ttl: (value, args) => (args[0] === 'short' ? 10 : value.expiresIn * 1000),
+      getTimestamp: () => now,
+    });
+    const fetchToken = cache(async (scope: string) => ({ token: scope, expiresIn: 60 }));
+
+    await fetchToken('long');
+    await fetchToken('short');
+    expect(cache.getEntry(JSON.stringify(['long']))).toMatchObject({ expiry: 61000, ttl: 60000 });
+    expect(cache.getEntry(JSON.stringify(['short']))).toMatchObject({ expiry: 1010, ttl: 10 });
+
+    // Manual set without a TTL goes through the same function with no arguments
+    cache.set('manual', { token: 'manual', expiresIn: 5 });
+    expect(cache.getEntry('manual')?.expiry).toBe(6000);
+  });
+
+  it('should skip caching results the TTL function rejects', async () => {
+    const cache = createAsyncCache<{ status: number }>({
+      ttl: (value) => (value.status === 200 ? 1000 : false),
+    });
+    const fn = vi.fn().mockResolvedValueOnce({ status: 503 }).mockResolvedValue({ status: 200 });
+    const cached = cache(fn);
+
+    await expect(cached('a')).resolves.toEqual({ status: 503 });
+    expect(cache.size()).toBe(0);
+    await expect(cached('a')).resolves.toEqual({ status: 200 });
+    await cached('a');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use errorTtl for cached failures', async () => {
+    let now = 1000;
+    const cache = createAsyncCache<string>({
+      ttl: 1000,
+      errorTtl: 50,
+      cacheErrorResults: true,
+      getTimestamp: () => now,
+    });
+    const fn = vi.fn().mockRejectedValueOnce(new Error('Down')).mockResolvedValue('ok');
+    const cached = cache(fn);
+
+    await expect(cached('a')).rejects.toThrow('Down');
+    expect(cache.getEntry(JSON.stringify(['a']))).toMatchObject({ isError: true, expiry: 1050 });
+
+    now += 50;
+    await expect(cached('a')).resolves.toBe('ok');
+    expect(cache.getEntry(JSON.stringify(['a']))?.expiry).toBe(2050);
+  });
+
+  it('should not cache errors when only a TTL function is given', async () => {
+    const cache = createAsyncCache<string>({ ttl: () => 1000, cacheErrorResults: true });
+    const cached = cache(vi.fn().mockRejectedValue(new Error('Down')));
+
+    await expect(cached('a')).rejects.toThrow('Down');
+    expect(cache.size()).toBe(0);
+  });
+});
+
+describe('weight limit', () => {
+  it('should evict least recently used entries to stay under maxWeight', () => {
+    const onEvict = vi.fn();
+    const cache = createAsyncCache<string>({
+      ttl: 1000,
+      maxWeight: 10,
+      sizeOf: (value) => value.length,
+      onEvict,
+    });
+
+    cache.set('a', 'aaaa');
+    cache.set('b', 'bbb');
+    cache.set('c', 'cc');
+    cache.get('a'); // Now b is the least recently used
+    cache.set('d', 'ddddd');
+
+    expect(cache.keys()).toEqual(['a', 'd']);
+    expect(onEvict).toHaveBeenCalledWith(
+      'b',
+      expect.objectContaining({ value: 'bbb' }),
+      'capacity'
+    );
+    expect(onEvict).toHaveBeenCalledWith('c', expect.objectContaining({ value: 'cc' }), 'capacity');
+    expect(cache.stats()).toMatchObject({
+      weight: 9,
+      largestEntries: [
+        { key: 'd', weight: 5 },
+        { key: 'a', weight: 4 },
+      ],
+    });
+
+    // Replacing and deleting entries updates the total
+    cache.set('a', 'a');
+    cache.delete('d');
+    expect(cache.stats().weight).toBe(1);
+    cache.clear();
+    expect(cache.stats().weight).toBe(0);
+  });
+
+  it('should refuse values heavier than maxWeight', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const cache = createAsyncCache<string>({
+      ttl: 1000,
+      maxWeight: 5,
+      sizeOf: (value) => value.length,
+      logger,
+    });
+    cache.set('small', 'ok');
+
+    const fn = vi.fn(async () => 'way too large');
+    const cached = cache(fn, () => 'key');
+    await expect(cached()).resolves.toBe('way too large');
+    await cached();
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Not caching "key", its weight 13 exceeds maxWeight 5'
+    );
+
+    // A refused value also drops the entry it would have replaced
+    cache.set('other', 'old');
+    cache.set('other', 'too large');
+    expect(cache.keys()).toEqual(['small']);
+    expect(cache.stats().weight).toBe(2);
+  });
+
+  it('should weigh cached errors without calling sizeOf', async () => {
+    const sizeOf = vi.fn((value: Uint8Array) => value.byteLength);
+    const cache = createAsyncCache<Uint8Array>({
+      ttl: 1000,
+      maxWeight: 10,
+      sizeOf,
+      cacheErrorResults: true,
+    });
+    cache.set('bytes', new Uint8Array(4));
+
+    const error = new Error('Load failed');
+    const cached = cache(
+      () => Promise.reject(error),
+      () => 'failing'
+    );
+    await expect(cached()).rejects.toBe(error);
+
+    expect(sizeOf).toHaveBeenCalledTimes(1);
+    expect(cache.keys()).toEqual(['bytes', 'failing']);
+    expect(cache.stats().weight).toBe(5);
+  });
+
+  it('should refuse values with an invalid weight', () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const cache = createAsyncCache<number>({
+      ttl: 1000,
+      maxWeight: 10,
+      sizeOf: (value) => value,
+      logger,
+    });
+    cache.set('valid', 3);
+
+    cache.set('nan', NaN);
+    cache.set('negative', -1);
+    cache.set('infinite', Infinity);
+
+    expect(cache.keys()).toEqual(['valid']);
+    expect(cache.stats().weight).toBe(3);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Not caching "nan", sizeOf returned an invalid weight NaN'
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Not caching "infinite", its weight Infinity exceeds maxWeight 10'
+    );
+  });
+
+  it('should leave stats unchanged without maxWeight', () => {
+    const cache = createAsyncCache<string>({ ttl: 1000 });
+    cache.set('a', 'value');
+    expect(cache.stats()).not.toHaveProperty('weight');
+  });
+});
+
+describe('eviction policies', () => {
+  // A few popular keys read twice per round while a scan of one-off keys passes through
+  const runWorkload = async (cache: AsyncCache<number>) => {
+    const cached = cache(async (key: string) => key.length);
+    for (let round = 0; round < 20; round++) {
+      for (let i = 0; i < 10; i++) await cached(`hot${i % 5}`);
+      for (let i = 0; i < 10; i++) await cached(`scan${round}-${i}`);
+    }
+    return cache.stats().hitRatio;
+  };
+
+  it('should pick the default store by policy and report the hit ratio', async () => {
+    const lru = await runWorkload(createAsyncCache<number>({ maxSize: 10 }));
+    const lfu = await runWorkload(createAsyncCache<number>({ maxSize: 10, policy: 'lfu' }));
+    const tinylfu = await runWorkload(createAsyncCache<number>({ maxSize: 10, policy: 'tinylfu' }));
+
+    expect(lru).toBe(0.25); // Every scan flushes the popular keys
+    expect(lfu).toBeGreaterThan(0.45);
+    expect(tinylfu).toBeGreaterThan(0.45);
+  });
+
+  it('should evict in insertion order with fifo and never with ttl', () => {
+    const fifo = createAsyncCache<number>({ maxSize: 2, policy: 'fifo' });
+    fifo.set('a', 1);
+    fifo.set('b', 2);
+    fifo.get('a');
+    fifo.set('c', 3);
+    expect(fifo.keys()).toEqual(['b', 'c']);
+
+    const ttlOnly = createAsyncCache<number>({ maxSize: 2, policy: 'ttl' });
+    for (let i = 0; i < 5; i++) ttlOnly.set(`key${i}`, i);
+    expect(ttlOnly.size()).toBe(5);
+  });
+
+  it('should prune expired entries on writes with ttl as the store grows', () => {
+    let now = 1000;
+    const cache = createAsyncCache<number>({
+      ttl: 100,
+      maxSize: 2,
+      policy: 'ttl',
+      getTimestamp: () => now,
+    });
+    for (let i = 0; i < 999; i++) cache.set(`old${i}`, i);
+    expect(cache.size()).toBe(999);
+
+    now += 200;
+    cache.set('new0', 0); // Below the threshold, nothing is pruned yet
+    cache.set('new1', 1);
+    expect(cache.size()).toBe(2);
+  });
+
+  it('should report the share of lookups served from the cache', async () => {
+    const cache = createAsyncCache<string>({ ttl: 1000 });
+    expect(cache.stats().hitRatio).toBe(0);
+
+    const cached = cache(async (id: string) => id);
+    await cached('a');
+    await cached('a');
+    await cached('a');
+    await cached('b');
+    expect(cache.stats().hitRatio).toBe(0.5);
+  });
+});
+
+describe('snapshots', () => {
+  it('should restore dumped entries that have not expired', async () => {
+    let now = 1000;
+    const source = createAsyncCache<string>({
+      ttl: 100,
+      cacheErrorResults: true,
+      getTimestamp: () => now,
+    });
+    source.set('fresh', 'value', 500, false, ['group']);
+    source.set('expiring', 'old', 50);
+    await expect(
+      source(
+        () => Promise.reject(new TypeError('Bad input')),
+        () => 'failed'
+      )()
+    ).rejects.toThrow();
+
+    const snapshot = JSON.parse(JSON.stringify(source.dump()));
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.entries).toHaveLength(3);
+
+    now += 60;
+    const target = createAsyncCache<string>({ ttl: 100, getTimestamp: () => now });
+    expect(target.load(snapshot)).toBe(2);
+
+    expect(target.keys()).toEqual(['fresh', 'failed']);
+    expect(target.getEntry('fresh')).toMatchObject({
+      value: 'value',
+      expiry: 1500,
+      tags: ['group'],
+    });
+    const failed = target.getEntry('failed');
+    expect(failed?.isError).toBe(true);
+    expect(failed?.value).toBeInstanceOf(Error);
+    expect(failed?.value).toMatchObject({ name: 'TypeError', message: 'Bad input' });
+  });
+
+  it('should convert values with the serializer', () => {
+    const serializer = {
+      serialize: (value: Date) => value.toISOString(),
+      deserialize: (data: unknown) => new Date(data as string),
+    };
+    const source = createAsyncCache<Date>({ ttl: 1000, serializer });
+    source.set('date', new Date('2024-01-01T00:00:00Z'));
+
+    const snapshot = source.dump();
+    expect(snapshot.entries[0].value).toBe('2024-01-01T00:00:00.000Z');
+
+    const target = createAsyncCache<Date>({ ttl: 1000, serializer });
+    target.load(snapshot);
+    expect(target.get('date')).toEqual(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  it('should only count entries the store kept', () => {
+    const source = createAsyncCache<string>({ ttl: 1000 });
+    source.set('small', 'ok');
+    source.set('large', 'ten chars!');
+
+    const target = createAsyncCache<string>({
+      ttl: 1000,
+      maxWeight: 5,
+      sizeOf: (value) => value.length,
+      logger: silentLogger,
+    });
+    expect(target.load(source.dump())).toBe(1);
+    expect(target.size()).toBe(1);
+  });
+
+  it('should reject unknown snapshot formats', () => {
+    const cache = createAsyncCache({ ttl: 1000 });
+    expect(() => cache.load({ entries: [] } as any)).toThrow('Unsupported cache snapshot format');
+  });
+});
+
+describe('invalidation', () => {
+  it('should remove entries by tag from the wrapper and set', async () => {
+    const cache = createAsyncCache<string>({ ttl: 1000 });
+    const getUser = cache(
+      async (userId: number, orgId: number) => `user-${userId}`,
+      (userId) => `user:${userId}`,
+      (userId, orgId) => [`user:${userId}`, `org:${orgId}`]
+    );
+
+    await getUser(1, 7);
+    await getUser(2, 7);
+    await getUser(3, 8);
+    cache.set('org:7:name', 'Acme', undefined, false, ['org:7']);
+
+    expect(cache.invalidateTag('org:7')).toBe(3);
+    expect(cache.keys()).toEqual(['user:3']);
+    expect(cache.invalidateTag('org:7')).toBe(0);
+  });
+
+  it('should remove entries matching a pattern or predicate', () => {
+    const onEvict = vi.fn();
+    const cache = createAsyncCache<number>({ ttl: 1000, onEvict });
+    cache.set('user:1', 1);
+    cache.set('user:2', 2);
+    cache.set('post:1', 3);
+
+    expect(cache.invalidate(/^user:/g)).toBe(2);
+    expect(cache.keys()).toEqual(['post:1']);
+    expect(onEvict).toHaveBeenCalledWith(
+      'user:1',
+      expect.objectContaining({ value: 1 }),
+      'deleted'
+    );
+
+    cache.set('post:2', 4);
+    expect(cache.invalidate((_key, entry) => entry.value > 3)).toBe(1);
+    expect(cache.keys()).toEqual(['post:1']);
+  });
+
+  it('should not store loads that were running when their key was invalidated', async () => {
+    const cache = createAsyncCache<string>({ ttl: 1000 });
+    const resolvers: Array<(value: string) => void> = [];
+    const fn = vi.fn((_id: string) => new Promise<string>((resolve) => resolvers.push(resolve)));
+    const cached = cache(
+      fn,
+      (id) => `user:${id}`,
+      (id) => [`user:${id}`]
+    );
+
+    const stale = cached('1');
+    await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(1));
+    cache.invalidateTag('user:1');
+
+    // Starts a new load instead of joining the invalidated one
+    const fresh = cached('1');
+    await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(2));
+    resolvers[1]('new');
+    await expect(fresh).resolves.toBe('new');
+    resolvers[0]('old');
+    await expect(stale).resolves.toBe('old');
+    expect(cache.get('user:1')).toBe('new');
+
+    const deleted = cached('2');
+    await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(3));
+    cache.delete('user:2');
+    resolvers[2]('gone');
+    await expect(deleted).resolves.toBe('gone');
+    expect(cache.has('user:2')).toBe(false);
+  });
+
+  it('should keep tags when entries are refreshed in the background', async () => {
+    let now = 1000;
+    const cache = createAsyncCache<string>({
+      ttl: 100,
+      staleWhileRevalidate: true,
+      getTimestamp: () => now,
+    });
+    const cached = cache(
+      async (id: string) => id,
+      undefined,
+      (id) => [`item:${id}`]
+    );
+
+    await cached('1');
+    now += 200;
+    await cached('1'); // Stale, reloads in the background
+    await vi.waitFor(() => expect(cache.getEntry(JSON.stringify(['1']))?.expiry).toBe(1300));
+
+    expect(cache.invalidateTag('item:1')).toBe(1);
+  });
+});
+
+describe('eviction events', () => {
+  let mockTime = 1000;
+  const getTimestamp = () => mockTime;
+
+  beforeEach(() => {
+    mockTime = 1000;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report capacity evictions from the LRU store', async () => {
+    const onEvict = vi.fn();
+    const cache = createAsyncCache({ ttl: 100, maxSize: 2, getTimestamp, onEvict });
+
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a'); // Make b the least recently used
+    cache.set('c', 3);
+
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(onEvict).toHaveBeenCalledWith('b', expect.objectContaining({ value: 2 }), 'capacity');
+  });
+
+  it('should report expired entries removed by prune', () => {
+    const onEvict = vi.fn();
+    const cache = createAsyncCache({ ttl: 100, getTimestamp, onEvict });
+
+    cache.set('old', 'value');
+    mockTime += 150;
+    cache.set('fresh', 'value');
+    cache.prune();
+
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(onEvict).toHaveBeenCalledWith(
+      'old',
+      expect.objectContaining({ value: 'value' }),
+      'expired'
+    );
+  });
+
+  it('should report deleted, cleared and replaced entries', () => {
+    const onEvict = vi.fn();
+    const cache = createAsyncCache({ ttl: 100, getTimestamp });
+    cache.onEvict(onEvict);
+
+    cache.set('a', 1);
+    cache.set('a', 2);
+    expect(onEvict).toHaveBeenLastCalledWith(
+      'a',
+      expect.objectContaining({ value: 1 }),
+      'replaced'
+    );
+
+    cache.delete('a');
+    expect(onEvict).toHaveBeenLastCalledWith('a', expect.objectContaining({ value: 2 }), 'deleted');
+
+    cache.delete('a');
+    expect(onEvict).toHaveBeenCalledTimes(2);
+
+    cache.set('b', 3);
+    cache.set('c', 4);
+    cache.clear();
+    expect(onEvict).toHaveBeenCalledTimes(4);
+    expect(onEvict.mock.calls.slice(2).map(([key, , reason]) => [key, reason])).toEqual([
+      ['b', 'cleared'],
+      ['c', 'cleared'],
+    ]);
+  });
+
+  it('should not report TTL updates as replacements', () => {
+    const onEvict = vi.fn();
+    const cache = createAsyncCache({ ttl: 100, getTimestamp, onEvict });
+
+    cache.set('a', 1);
+    cache.updateTTL('a', 500);
+
+    expect(onEvict).not.toHaveBeenCalled();
+  });
+
+  it('should report replaced entries when the wrapper reloads an expired key', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1); // Skip the occasional prune on misses
+    const onEvict = vi.fn();
+    const cache = createAsyncCache({ ttl: 100, getTimestamp, onEvict });
+    const cachedFn = cache(async (input: string) => `${input}-${mockTime}`);
+
+    await cachedFn('test');
+    mockTime += 150;
+    await cachedFn('test');
+
+    expect(onEvict).toHaveBeenCalledWith(
+      JSON.stringify(['test']),
+      expect.objectContaining({ value: 'test-1000' }),
+      'replaced'
+    );
+  });
+
+  it('should stop notifying after unsubscribing', () => {
+    const onEvict = vi.fn();
+    const cache = createAsyncCache({ ttl: 100, getTimestamp });
+    const unsubscribe = cache.onEvict(onEvict);
+
+    cache.set('a', 1);
+    unsubscribe();
+    cache.delete('a');
+
+    expect(onEvict).not.toHaveBeenCalled();
+  });
+
+  it('should keep evicting when a listener throws', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = createAsyncCache({
+      ttl: 100,
+      getTimestamp,
+      onEvict: () => {
+        throw new Error('Listener failed');
+      },
+    });
+
+    cache.set('a', 1);
+    expect(cache.delete('a')).toBe(true);
+    expect(cache.has('a')).toBe(false);
+    expect(consoleError).toHaveBeenCalledWith('Error in onEvict callback:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+});
+
 describe('README Examples', () => {
   let mockTime = 1000;
   const getTimestamp = vi.fn(() => mockTime);
@@ -389,7 +1046,7 @@ describe('README Examples', () => {
     (global as any).fetch = mockFetch;
 
     const cache = createAsyncCache({
-      ttl: 300000,               // 5 minutes
+      ttl: 300000, // 5 minutes
       maxSize: 1000,
       staleWhileRevalidate: true,
       getTimestamp,
@@ -397,7 +1054,7 @@ describe('README Examples', () => {
 
     // Mock fetch implementation
     mockFetch.mockImplementation(async (url: string) => ({
-      json: () => Promise.resolve({ id: url.split('/').pop(), name: 'Test User' })
+      json: () => Promise.resolve({ id: url.split('/').pop(), name: 'Test User' }),
     }));
 
     const getUserProfile = cache(
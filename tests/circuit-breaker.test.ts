@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createCircuitBreaker, CircuitOpenError } from '../src/circuit-breaker';
+
+describe('createCircuitBreaker', () => {
+  let mockTime = 1000;
+  const getTimestamp = () => mockTime;
+
+  const fail = () => Promise.reject(new Error('Service down'));
+  const succeed = () => Promise.resolve('ok');
+
+  beforeEach(() => {
+    mockTime = 1000;
+  });
+
+  it('should pass calls through while closed', async () => {
+    const breaker = createCircuitBreaker({ getTimestamp });
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    await expect(breaker.execute(fail)).rejects.toThrow('Service down');
+    expect(breaker.state()).toBe('closed');
+    expect(breaker.stats()).toMatchObject({ successes: 1, failures: 1, consecutiveFailures: 1 });
+  });
+
+  it('should open after consecutive failures and reject calls', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 3, resetTimeout: 1000, getTimestamp });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow('Service down');
+    }
+    expect(breaker.state()).toBe('open');
+    expect(breaker.isOpen()).toBe(true);
+
+    mockTime += 400;
+    const operation = vi.fn(succeed);
+    const error = await breaker.execute(operation).catch((e) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfter).toBe(600);
+    expect(operation).not.toHaveBeenCalled();
+    expect(breaker.stats().rejected).toBe(1);
+  });
+
+  it('should open when the failure rate exceeds the threshold', async () => {
+    const breaker = createCircuitBreaker({
+      failureThreshold: 100,
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+      windowSize: 4,
+      getTimestamp,
+    });
+
+    await breaker.execute(succeed);
+    await breaker.execute(fail).catch(() => {});
+    await breaker.execute(succeed);
+    expect(breaker.state()).toBe('closed'); // Not enough calls yet
+
+    await breaker.execute(fail).catch(() => {});
+    expect(breaker.state()).toBe('open');
+    expect(breaker.stats().failureRate).toBe(0.5);
+  });
+
+  it('should close again after successful half-open probes', async () => {
+    const onStateChange = vi.fn();
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      halfOpenMaxCalls: 2,
+      onStateChange,
+      getTimestamp,
+    });
+
+    await breaker.execute(fail).catch(() => {});
+    mockTime += 1000;
+    expect(breaker.state()).toBe('half-open');
+
+    await breaker.execute(succeed);
+    expect(breaker.state()).toBe('half-open');
+    await breaker.execute(succeed);
+    expect(breaker.state()).toBe('closed');
+
+    expect(onStateChange.mock.calls).toEqual([
+      ['open', 'closed'],
+      ['half-open', 'open'],
+      ['closed', 'half-open'],
+    ]);
+  });
+
+  it('should limit concurrent half-open probes', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, getTimestamp });
+
+    await breaker.execute(fail).catch(() => {});
+    mockTime += 1000;
+
+    let resolveProbe: (value: string) => void = () => {};
+    const probe = breaker.execute(() => new Promise<string>((resolve) => (resolveProbe = resolve)));
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    resolveProbe('ok');
+    await expect(probe).resolves.toBe('ok');
+    expect(breaker.state()).toBe('closed');
+  });
+
+  it('should reopen when a half-open probe fails', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, getTimestamp });
+
+    await breaker.execute(fail).catch(() => {});
+    mockTime += 1000;
+    await breaker.execute(fail).catch(() => {});
+
+    expect(breaker.state()).toBe('open');
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('should ignore errors rejected by isFailure', async () => {
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      isFailure: (error) => error.message !== 'Not found',
+      getTimestamp,
+    });
+
+    await breaker.execute(() => Promise.reject(new Error('Not found'))).catch(() => {});
+    expect(breaker.state()).toBe('closed');
+    expect(breaker.stats().failures).toBe(0);
+  });
+
+  it('should support manual open and reset', () => {
+    const breaker = createCircuitBreaker({ getTimestamp });
+
+    breaker.open();
+    expect(breaker.isOpen()).toBe(true);
+
+    breaker.reset();
+    expect(breaker.state()).toBe('closed');
+    expect(breaker.stats().consecutiveFailures).toBe(0);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createManualClock } from '../src/clock';
+import { asyncRetry, RetryDelays } from '../src/retry';
+import { createCircuitBreaker } from '../src/circuit-breaker';
+import { createRetryBudget } from '../src/retry-budget';
+import { createAsyncPoller } from '../src/poll';
+import { createAsyncDedupe } from '../src/dedupe';
+import { createAsyncCache } from '../src/cache';
+import { createAsyncQueue } from '../src/queue';
+
+describe('createManualClock', () => {
+  it('should only run timers when time is advanced', async () => {
+    const clock = createManualClock(1000);
+    const calls: string[] = [];
+
+    clock.setTimeout(() => calls.push('b'), 200);
+    clock.setTimeout(() => calls.push('a'), 100);
+    const cancelled = clock.setTimeout(() => calls.push('never'), 150);
+    clock.clearTimeout(cancelled);
+
+    expect(clock.pending()).toBe(2);
+    await clock.advance(99);
+    expect(calls).toEqual([]);
+    expect(clock.now()).toBe(1099);
+
+    await clock.advance(101);
+    expect(calls).toEqual(['a', 'b']);
+    expect(clock.now()).toBe(1200);
+    expect(clock.pending()).toBe(0);
+  });
+
+  it('should repeat intervals until cleared', async () => {
+    const clock = createManualClock();
+    const tick = vi.fn();
+
+    const handle = clock.setInterval(tick, 100);
+    await clock.advance(350);
+    expect(tick).toHaveBeenCalledTimes(3);
+
+    clock.clearInterval(handle);
+    await clock.advance(1000);
+    expect(tick).toHaveBeenCalledTimes(3);
+  });
+
+  it('should run timers scheduled from timers and stop endless loops', async () => {
+    const clock = createManualClock();
+    const order: number[] = [];
+
+    clock.setTimeout(() => {
+      order.push(clock.now());
+      clock.setTimeout(() => order.push(clock.now()), 50);
+    }, 10);
+    await clock.runAll();
+    expect(order).toEqual([10, 60]);
+
+    clock.setInterval(() => {}, 10);
+    await expect(clock.runAll()).rejects.toThrow('assuming an endless loop');
+  });
+});
+
+describe('modules with a manual clock', () => {
+  it('should step through retry backoff', async () => {
+    const clock = createManualClock();
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Down'))
+      .mockRejectedValueOnce(new Error('Down'))
+      .mockResolvedValue('Success');
+
+    const promise = asyncRetry(operation, { minTimeout: 100, jitter: false, clock });
+
+    await clock.advance(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await clock.advance(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await clock.advance(200);
+    await expect(promise).resolves.toBe('Success');
+    expect(clock.now()).toBe(300);
+  });
+
+  it('should cool down a circuit breaker and refill a retry budget in virtual time', async () => {
+    const clock = createManualClock();
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, clock });
+
+    const promise = asyncRetry(() => Promise.reject(new Error('Down')), {
+      retries: 2,
+      minTimeout: 10,
+      jitter: false,
+      circuitBreaker,
+      clock,
+    });
+    const assertion = expect(promise).rejects.toThrowError(
+      expect.objectContaining({ reason: 'circuit-open' })
+    );
+    await clock.advance(10);
+    await assertion;
+    expect(circuitBreaker.state()).toBe('open');
+
+    await clock.advance(1000);
+    expect(circuitBreaker.state()).toBe('half-open');
+
+    const budget = createRetryBudget({ ratio: 0, minPerSecond: 1, window: 1000, clock });
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(false);
+    await clock.advance(1000);
+    expect(budget.tryRetry()).toBe(true);
+  });
+
+  it('should measure Retry-After dates from the retry clock', async () => {
+    const start = Date.UTC(2020, 0, 1);
+    const clock = createManualClock(start);
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(
+        Object.assign(new Error('Slow down'), { retryAfter: new Date(start + 500) })
+      )
+      .mockResolvedValue('Success');
+
+    const promise = asyncRetry(operation, {
+      minTimeout: 10,
+      getDelay: RetryDelays.RETRY_AFTER,
+      clock,
+    });
+
+    await clock.advance(499);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await clock.advance(1);
+    await expect(promise).resolves.toBe('Success');
+  });
+
+  it('should step through polls', async () => {
+    const clock = createManualClock();
+    const poll = vi.fn().mockResolvedValueOnce('running').mockResolvedValue('done');
+
+    const poller = createAsyncPoller(poll, {
+      interval: 1000,
+      shouldContinue: (result) => result === 'running',
+      clock,
+    });
+    const promise = poller.start();
+
+    await clock.advance(0);
+    expect(poll).toHaveBeenCalledTimes(1);
+    await clock.advance(1000);
+    await expect(promise).resolves.toBe('done');
+  });
+
+  it('should expire dedupe records and cache entries by virtual time', async () => {
+    const clock = createManualClock();
+
+    const dedupe = createAsyncDedupe({ timeout: 100, clock });
+    const fn = vi.fn(() => new Promise<string>(() => {}));
+    const deduped = dedupe(fn);
+    deduped('a');
+    deduped('a');
+    expect(fn).toHaveBeenCalledTimes(1);
+    await clock.advance(100);
+    deduped('a');
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    const cache = createAsyncCache<string>({ ttl: 100, clock });
+    cache.set('key', 'value');
+    await clock.advance(100);
+    expect(cache.get('key')).toBeUndefined();
+  });
+
+  it('should time out queue tasks and apply rate limits in virtual time', async () => {
+    const clock = createManualClock();
+    const queue = createAsyncQueue({
+      concurrency: 2,
+      timeout: 500,
+      interval: 1000,
+      intervalCap: 1,
+      clock,
+    });
+
+    const slow = queue.add(() => new Promise(() => {}));
+    const fast = queue.add(async () => 'done');
+    const slowResult = expect(slow).rejects.toThrow('timed out');
+
+    await clock.advance(500);
+    await slowResult;
+    expect(queue.stats()).toMatchObject({ active: 0, pending: 1, timeouts: 1 }); // Waiting for the window
+
+    await clock.advance(500);
+    await expect(fast).resolves.toBe('done');
+  });
+});
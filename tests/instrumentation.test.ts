@@ -0,0 +1,262 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  combineInstrumentation,
+  createOtelInstrumentation,
+  type InstrumentationEvent,
+  type SpanLike,
+} from '../src/instrumentation';
+import { createManualClock } from '../src/clock';
+import { asyncRetry } from '../src/retry';
+import { createAsyncPoller } from '../src/poll';
+import { createAsyncDedupe } from '../src/dedupe';
+import { createAsyncCache } from '../src/cache';
+import { createAsyncQueue } from '../src/queue';
+
+const collect = () => {
+  const events: InstrumentationEvent[] = [];
+  const instrumentation = (event: InstrumentationEvent) => {
+    events.push(event);
+  };
+  return { events, instrumentation, types: () => events.map((event) => event.type) };
+};
+
+describe('instrumentation events', () => {
+  it('should report retry attempts and giving up', async () => {
+    const clock = createManualClock();
+    const { events, instrumentation } = collect();
+    const error = new Error('Down');
+
+    const promise = asyncRetry(
+      () => new Promise((_, reject) => clock.setTimeout(() => reject(error), 20)),
+      { retries: 1, minTimeout: 10, jitter: false, clock, instrumentation }
+    );
+    const assertion = expect(promise).rejects.toThrow('Failed after 2 attempt(s)');
+    await clock.runAll();
+    await assertion;
+
+    const id = (events[0] as { id: number }).id;
+    expect(events).toEqual([
+      { type: 'retry:attempt-start', id, attempt: 1 },
+      { type: 'retry:attempt-end', id, attempt: 1, duration: 20, error },
+      { type: 'retry:attempt-start', id, attempt: 2 },
+      { type: 'retry:attempt-end', id, attempt: 2, duration: 20, error },
+      {
+        type: 'retry:give-up',
+        id,
+        attempts: 2,
+        reason: 'retries-exhausted',
+        error: expect.objectContaining({ name: 'RetryError' }),
+      },
+    ]);
+  });
+
+  it('should report cache hits, misses and stale hits', async () => {
+    let now = 1000;
+    const { types, instrumentation } = collect();
+    const cache = createAsyncCache<string>({
+      ttl: 100,
+      staleWhileRevalidate: true,
+      getTimestamp: () => now,
+      instrumentation,
+    });
+    const cached = cache(async (id: string) => `user-${id}`);
+
+    await cached('1');
+    await cached('1');
+    now += 100;
+    await cached('1');
+
+    expect(types()).toEqual(['cache:miss', 'cache:hit', 'cache:stale']);
+  });
+
+  it('should report started and joined dedupe calls', async () => {
+    const { events, instrumentation } = collect();
+    const dedupe = createAsyncDedupe({ instrumentation });
+    const fetchUser = dedupe(async (id: string) => id);
+
+    await Promise.all([fetchUser('1'), fetchUser('1')]);
+
+    expect(events).toEqual([
+      { type: 'dedupe:started', key: '["1"]' },
+      { type: 'dedupe:joined', key: '["1"]' },
+    ]);
+  });
+
+  it('should report queued, started and finished tasks', async () => {
+    const clock = createManualClock();
+    const { events, instrumentation } = collect();
+    const queue = createAsyncQueue({ concurrency: 1, clock, instrumentation });
+
+    const first = queue.add(
+      () => new Promise((resolve) => clock.setTimeout(() => resolve('done'), 50)),
+      { id: 'first' }
+    );
+    const second = queue.add(() => Promise.reject(new Error('Failed')), { id: 'second' });
+    const third = queue.add(async () => 'never', { id: 'third' });
+    third.cancel();
+    second.catch(() => {});
+    third.catch(() => {});
+
+    await clock.runAll();
+    await first;
+
+    const queueId = (events[0] as { queue: number }).queue;
+    expect(events).toEqual([
+      { type: 'queue:task-queued', queue: queueId, id: 'first', priority: 0 },
+      { type: 'queue:task-started', queue: queueId, id: 'first', waited: 0 },
+      { type: 'queue:task-queued', queue: queueId, id: 'second', priority: 0 },
+      { type: 'queue:task-queued', queue: queueId, id: 'third', priority: 0 },
+      {
+        type: 'queue:task-finished',
+        queue: queueId,
+        id: 'third',
+        status: 'cancelled',
+        duration: 0,
+        error: expect.objectContaining({ name: 'QueueCancelError' }),
+      },
+      {
+        type: 'queue:task-finished',
+        queue: queueId,
+        id: 'first',
+        status: 'completed',
+        duration: 50,
+      },
+      { type: 'queue:task-started', queue: queueId, id: 'second', waited: 50 },
+      {
+        type: 'queue:task-finished',
+        queue: queueId,
+        id: 'second',
+        status: 'failed',
+        duration: 0,
+        error: expect.objectContaining({ message: 'Failed' }),
+      },
+    ]);
+  });
+
+  it('should report poll ticks', async () => {
+    const clock = createManualClock();
+    const { types, instrumentation } = collect();
+    const poller = createAsyncPoller(
+      vi.fn().mockRejectedValueOnce(new Error('Not ready')).mockResolvedValue('ready'),
+      { interval: 100, onError: () => true, clock, instrumentation }
+    );
+
+    const promise = poller.start();
+    await clock.runAll();
+
+    await expect(promise).resolves.toBe('ready');
+    expect(types()).toEqual([
+      'poll:tick-start',
+      'poll:tick-end',
+      'poll:tick-start',
+      'poll:tick-end',
+    ]);
+  });
+
+  it('should keep instrumentation errors away from the instrumented code', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const instrumentation = combineInstrumentation(() => {
+      throw new Error('Broken exporter');
+    }, undefined);
+
+    await expect(asyncRetry(async () => 'ok', { instrumentation })).resolves.toBe('ok');
+    expect(consoleSpy).toHaveBeenCalledWith(
+      'Error in instrumentation callback:',
+      expect.any(Error)
+    );
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('createOtelInstrumentation', () => {
+  const createTracer = () => {
+    const spans: (SpanLike & { name: string; attributes: Record<string, unknown> })[] = [];
+    const tracer = {
+      startSpan: vi.fn((name: string, options?: { attributes?: Record<string, any> }) => {
+        const span = {
+          name,
+          attributes: { ...options?.attributes },
+          setAttribute: vi.fn((key: string, value: unknown) => {
+            span.attributes[key] = value;
+          }),
+          setStatus: vi.fn(),
+          recordException: vi.fn(),
+          end: vi.fn(),
+        };
+        spans.push(span);
+        return span;
+      }),
+    };
+    return { tracer, spans };
+  };
+
+  const createMeter = () => {
+    const counts: Record<string, number> = {};
+    const recorded: Record<string, number[]> = {};
+    const meter = {
+      createCounter: (name: string) => ({
+        add: (value: number) => {
+          counts[name] = (counts[name] ?? 0) + value;
+        },
+      }),
+      createHistogram: (name: string) => ({
+        record: (value: number) => {
+          (recorded[name] ??= []).push(value);
+        },
+      }),
+    };
+    return { meter, counts, recorded };
+  };
+
+  it('should turn retry attempts into spans and metrics', async () => {
+    const clock = createManualClock();
+    const { tracer, spans } = createTracer();
+    const { meter, counts, recorded } = createMeter();
+    const instrumentation = createOtelInstrumentation({ tracer, meter });
+
+    const error = new Error('Down');
+    const operation = vi.fn().mockRejectedValueOnce(error).mockResolvedValue('ok');
+    const promise = asyncRetry(operation, { minTimeout: 10, clock, instrumentation });
+    await clock.runAll();
+    await promise;
+
+    expect(spans.map((span) => [span.name, span.attributes])).toEqual([
+      ['async_plugins.retry.attempt', { attempt: 1 }],
+      ['async_plugins.retry.attempt', { attempt: 2 }],
+    ]);
+    expect(spans[0].recordException).toHaveBeenCalledWith(error);
+    expect(spans[0].setStatus).toHaveBeenCalledWith({ code: 2, message: 'Down' });
+    expect(spans[1].setStatus).toHaveBeenCalledWith({ code: 1 });
+    expect(spans.every((span) => (span.end as any).mock.calls.length === 1)).toBe(true);
+
+    expect(counts).toEqual({
+      'async_plugins.retry.attempt.failures': 1,
+      'async_plugins.retry.attempt.successes': 1,
+    });
+    expect(recorded['async_plugins.retry.attempt.duration']).toEqual([0, 0]);
+  });
+
+  it('should count cache events and trace queue tasks with a custom prefix', async () => {
+    const { tracer, spans } = createTracer();
+    const { meter, counts } = createMeter();
+    const instrumentation = createOtelInstrumentation({ tracer, meter, prefix: 'app' });
+
+    const cache = createAsyncCache<number>({ instrumentation });
+    const square = cache(async (n: number) => n * n);
+    await square(2);
+    await square(2);
+
+    const queue = createAsyncQueue({ instrumentation });
+    await queue.add(async () => 'done', { id: 'job' });
+
+    expect(counts).toMatchObject({
+      'app.cache.misses': 1,
+      'app.cache.hits': 1,
+      'app.queue.tasks.queued': 1,
+      'app.queue.tasks.finished': 1,
+    });
+    expect(spans).toHaveLength(1);
+    expect(spans[0].name).toBe('app.queue.task');
+    expect(spans[0].attributes).toEqual({ 'task.id': 'job', 'task.status': 'completed' });
+  });
+});
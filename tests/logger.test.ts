@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLogger, setDefaultLogger, silentLogger, type Logger } from '../src/logger';
+import { asyncRetry } from '../src/retry';
+import { createAsyncQueue } from '../src/queue';
+import { createCircuitBreaker } from '../src/circuit-breaker';
+
+const mockLogger = (): Logger & Record<keyof Logger, ReturnType<typeof vi.fn>> => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe('createLogger', () => {
+  it('should only forward messages at or above the level', () => {
+    const base = mockLogger();
+    const logger = createLogger(base, 'info');
+
+    logger.debug('hidden');
+    logger.info('shown', 1);
+    logger.error('failed', 'details');
+
+    expect(base.debug).not.toHaveBeenCalled();
+    expect(base.info).toHaveBeenCalledWith('shown', 1);
+    expect(base.error).toHaveBeenCalledWith('failed', 'details');
+  });
+
+  it('should drop everything when silent', () => {
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    silentLogger.error('dropped');
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('logger option', () => {
+  afterEach(() => {
+    setDefaultLogger(null);
+  });
+
+  it('should send callback errors to the configured logger', async () => {
+    const logger = mockLogger();
+    const callbackError = new Error('Callback failed');
+
+    const result = await asyncRetry(
+      vi.fn().mockRejectedValueOnce(new Error('Down')).mockResolvedValue('ok'),
+      {
+        minTimeout: 1,
+        jitter: false,
+        logger,
+        onRetry: () => {
+          throw callbackError;
+        },
+      }
+    );
+
+    expect(result).toBe('ok');
+    expect(logger.error).toHaveBeenCalledWith('Error in retry callback:', callbackError);
+  });
+
+  it('should use the default logger for factories created before it was set', async () => {
+    const queue = createAsyncQueue({
+      onError: () => {
+        throw new Error('Callback failed');
+      },
+    });
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      onStateChange: () => {
+        throw new Error('Callback failed');
+      },
+    });
+
+    const logger = mockLogger();
+    setDefaultLogger(logger);
+
+    await expect(queue.add(() => Promise.reject(new Error('Task failed')))).rejects.toThrow(
+      'Task failed'
+    );
+    await expect(breaker.execute(() => Promise.reject(new Error('Down')))).rejects.toThrow('Down');
+
+    expect(logger.error).toHaveBeenCalledWith('Error in onError callback:', expect.any(Error));
+    expect(logger.error).toHaveBeenCalledWith(
+      'Error in onStateChange callback:',
+      expect.any(Error)
+    );
+  });
+
+  it('should restore console logging when the default is reset', () => {
+    setDefaultLogger(silentLogger);
+    setDefaultLogger(null);
+
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const breaker = createCircuitBreaker({
+      onStateChange: () => {
+        throw new Error('Callback failed');
+      },
+    });
+    breaker.open();
+
+    expect(spy).toHaveBeenCalledWith('Error in onStateChange callback:', expect.any(Error));
+    spy.mockRestore();
+  });
+});
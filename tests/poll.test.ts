@@ -199,6 +199,54 @@ describe('AsyncPoller', () => {
       await promise;
       expect(poller.isPolling()).toBe(false);
     });
+    it('should accept shared backoff types and custom functions', async () => {
+      const mockFn = vi.fn().mockResolvedValue('pending');
+      const custom = vi.fn((attempt: number) => attempt * 50);
+
+      const poller = createAsyncPoller(mockFn, {
+        interval: 100,
+        maxAttempts: 3,
+        shouldContinue: () => true,
+        backoff: { type: custom },
+      });
+
+      const promise = poller.start();
+      const assertion = expect(promise).rejects.toThrow(PollError);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+
+      // Custom: 1 * 50
+      await vi.advanceTimersByTimeAsync(50);
+      expect(mockFn).toHaveBeenCalledTimes(2);
+
+      // Custom: 2 * 50
+      await vi.advanceTimersByTimeAsync(100);
+      expect(mockFn).toHaveBeenCalledTimes(3);
+      expect(custom).toHaveBeenNthCalledWith(2, 2, 50);
+
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it('should support full jitter', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const mockFn = vi.fn().mockResolvedValueOnce('pending').mockResolvedValue('done');
+
+      const poller = createAsyncPoller(mockFn, {
+        interval: 100,
+        shouldContinue: (result) => result === 'pending',
+        backoff: { type: 'fibonacci', jitter: 'full' },
+      });
+
+      const promise = poller.start();
+      await vi.advanceTimersByTimeAsync(1);
+
+      // Fibonacci one step in: 100 * 1, full jitter at 0.5: 50
+      await vi.advanceTimersByTimeAsync(50);
+      expect(mockFn).toHaveBeenCalledTimes(2);
+      await expect(promise).resolves.toBe('done');
+    });
   });
 
   describe('Error handling', () => {
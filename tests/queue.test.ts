@@ -1,7 +1,6 @@
 // queue.test.ts
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createAsyncQueue, QueueOptions } from '../src/queue'; // Adjust path if needed
-
+import { createAsyncQueue, QueueCancelError, QueueOptions, QueueTimeoutError } from '../src/queue'; // Adjust path if needed
 
 process.on('unhandledRejection', (reason, promise) => {
   console.error('Unhandled Rejection at:', promise, 'reason:', reason);
@@ -454,20 +453,50 @@ describe('createAsyncQueue', () => {
   // Corrected: should update stats correctly
   it('should update stats correctly', async () => {
     const queue = createAsyncQueue({ concurrency: 2 });
-    expect(queue.stats()).toEqual({ pending: 0, active: 0, completed: 0, errors: 0, total: 0 });
+    expect(queue.stats()).toEqual({
+      pending: 0,
+      active: 0,
+      completed: 0,
+      errors: 0,
+      timeouts: 0,
+      cancelled: 0,
+      total: 0,
+      throttled: 0,
+      nextSlotIn: 0,
+    });
 
     const p1 = queue.add(createTask(20, 'ok1'));
     const p2 = queue.add(createTask(10, 'fail1', true));
     const p3 = queue.add(createTask(10, 'ok2')); // p3 waits for p1 or p2
 
-    expect(queue.stats()).toEqual({ pending: 1, active: 2, completed: 0, errors: 0, total: 3 });
+    expect(queue.stats()).toEqual({
+      pending: 1,
+      active: 2,
+      completed: 0,
+      errors: 0,
+      timeouts: 0,
+      cancelled: 0,
+      total: 3,
+      throttled: 0,
+      nextSlotIn: 0,
+    });
 
     // p2 (fail1) finishes first (after 10ms)
     await expect(p2).rejects.toThrow();
     // p3 should start now. p1 still running (10ms left).
     // Wait for microtasks to settle stats after rejection/next task start
     await delay(1);
-    expect(queue.stats()).toEqual({ pending: 0, active: 2, completed: 0, errors: 1, total: 3 });
+    expect(queue.stats()).toEqual({
+      pending: 0,
+      active: 2,
+      completed: 0,
+      errors: 1,
+      timeouts: 0,
+      cancelled: 0,
+      total: 3,
+      throttled: 0,
+      nextSlotIn: 0,
+    });
 
     // p3 (ok2) finishes (at 10ms + 10ms = 20ms total time)
     await expect(p3).resolves.toBe('ok2');
@@ -477,12 +506,32 @@ describe('createAsyncQueue', () => {
     await delay(1);
 
     // *** FIX: Adjusted expectation ***
-    expect(queue.stats()).toEqual({ pending: 0, active: 0, completed: 2, errors: 1, total: 3 });
+    expect(queue.stats()).toEqual({
+      pending: 0,
+      active: 0,
+      completed: 2,
+      errors: 1,
+      timeouts: 0,
+      cancelled: 0,
+      total: 3,
+      throttled: 0,
+      nextSlotIn: 0,
+    });
 
     // Await p1 just to ensure test waits fully, though stats are likely already final
     await expect(p1).resolves.toBe('ok1');
     // Stats should remain the same
-    expect(queue.stats()).toEqual({ pending: 0, active: 0, completed: 2, errors: 1, total: 3 });
+    expect(queue.stats()).toEqual({
+      pending: 0,
+      active: 0,
+      completed: 2,
+      errors: 1,
+      timeouts: 0,
+      cancelled: 0,
+      total: 3,
+      throttled: 0,
+      nextSlotIn: 0,
+    });
     expect(queue.isIdle()).toBe(true);
   });
 
@@ -540,6 +589,320 @@ describe('createAsyncQueue', () => {
   });
 });
 
+describe('rate limiting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should start at most intervalCap tasks per sliding window', async () => {
+    const queue = createAsyncQueue({ concurrency: 10, interval: 1000, intervalCap: 2 });
+    const started: number[] = [];
+    const task = (id: number) => async () => {
+      started.push(id);
+      return id;
+    };
+
+    const promises = [1, 2, 3, 4, 5].map((id) => queue.add(task(id)));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+    expect(queue.size()).toBe(3);
+    expect(queue.stats().throttled).toBe(3);
+    expect(queue.stats().nextSlotIn).toBe(1000);
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(queue.stats().nextSlotIn).toBe(600);
+
+    await vi.advanceTimersByTimeAsync(600);
+    expect(started).toEqual([1, 2, 3, 4]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    await expect(Promise.all(promises)).resolves.toEqual([1, 2, 3, 4, 5]);
+    expect(queue.stats()).toMatchObject({ completed: 5, throttled: 3, nextSlotIn: 0 });
+  });
+
+  it('should allow bursts up to the token bucket capacity', async () => {
+    const queue = createAsyncQueue({
+      concurrency: 10,
+      tokenBucket: { rate: 1, interval: 100, burst: 3 },
+    });
+    const started: number[] = [];
+    const task = (id: number) => async () => {
+      started.push(id);
+    };
+
+    for (let id = 1; id <= 5; id++) queue.add(task(id));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2, 3]);
+    expect(queue.stats().nextSlotIn).toBe(100);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toEqual([1, 2, 3, 4]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toEqual([1, 2, 3, 4, 5]);
+    await queue.onDrain();
+  });
+
+  it('should refill tokens while the queue is idle', async () => {
+    const queue = createAsyncQueue({ concurrency: 5, tokenBucket: { rate: 2, interval: 1000 } });
+    const task = vi.fn(async () => 'done');
+
+    await Promise.all([queue.add(task), queue.add(task)]);
+    expect(queue.stats().nextSlotIn).toBe(500);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(queue.stats().nextSlotIn).toBe(0);
+    await Promise.all([queue.add(task), queue.add(task)]);
+    expect(task).toHaveBeenCalledTimes(4);
+    expect(queue.stats().throttled).toBe(0);
+  });
+
+  it('should stop waiting for a slot when cleared', async () => {
+    const queue = createAsyncQueue({ interval: 1000, intervalCap: 1 });
+    const first = queue.add(async () => 'first');
+    const second = queue.add(async () => 'second');
+
+    await expect(first).resolves.toBe('first');
+    queue.clear();
+    await expect(second).rejects.toThrow('Queue cleared');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('task timeouts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should reject a hung task and free its slot', async () => {
+    const queue = createAsyncQueue({ concurrency: 1, timeout: 100 });
+    const hung = queue.add(() => new Promise(() => {}));
+    const next = queue.add(createTask(10, 'next'));
+    const assertion = expect(hung).rejects.toThrowError(
+      expect.objectContaining({ name: 'QueueTimeoutError', timeout: 100 })
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+    expect(queue.activeCount()).toBe(1); // The next task took the freed slot
+
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(next).resolves.toBe('next');
+    await queue.onDrain();
+    expect(queue.stats()).toMatchObject({ completed: 1, errors: 0, timeouts: 1 });
+  });
+
+  it('should abort the signal passed to the task', async () => {
+    const queue = createAsyncQueue({ timeout: 50 });
+    let signal: AbortSignal | undefined;
+    const promise = queue.add((context) => {
+      signal = context.signal;
+      return new Promise(() => {});
+    });
+    promise.catch(() => {});
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(signal?.aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(QueueTimeoutError);
+  });
+
+  it('should let a task override the queue-wide timeout', async () => {
+    const queue = createAsyncQueue({ concurrency: 2, timeout: 50 });
+    const slow = queue.add(createTask(80, 'slow'), { timeout: 100 });
+    const fast = queue.add(createTask(80, 'fast'));
+    const assertion = expect(fast).rejects.toBeInstanceOf(QueueTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(80);
+    await assertion;
+    await expect(slow).resolves.toBe('slow');
+  });
+
+  it('should ignore results that arrive after the timeout', async () => {
+    const onError = vi.fn();
+    const queue = createAsyncQueue({ timeout: 50, onError });
+    const promise = queue.add(createTask(100, 'late', true));
+    const assertion = expect(promise).rejects.toBeInstanceOf(QueueTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(QueueTimeoutError), expect.any(Function));
+    expect(queue.stats()).toMatchObject({ errors: 0, timeouts: 1, active: 0 });
+  });
+
+  it('should still accept a priority number as second argument', async () => {
+    const queue = createAsyncQueue({ autoStart: false });
+    const order: string[] = [];
+    const low = queue.add(async () => order.push('low'), 1);
+    const high = queue.add(async () => order.push('high'), { priority: 5 });
+
+    queue.resume();
+    await Promise.all([low, high]);
+    expect(order).toEqual(['high', 'low']);
+  });
+});
+
+describe('task cancellation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should cancel a pending task through its handle', async () => {
+    const queue = createAsyncQueue({ concurrency: 1 });
+    const first = queue.add(createTask(50, 'first'));
+    const second = queue.add(createTask(50, 'second'));
+    const task = vi.fn(createTask(50, 'third'));
+    const third = queue.add(task);
+
+    expect(second.cancel('user clicked cancel')).toBe(true);
+    await expect(second).rejects.toThrowError(
+      expect.objectContaining({
+        name: 'QueueCancelError',
+        id: second.id,
+        reason: 'user clicked cancel',
+      })
+    );
+    expect(queue.size()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(first).resolves.toBe('first');
+    await expect(third).resolves.toBe('third');
+    expect(queue.stats()).toMatchObject({ completed: 2, cancelled: 1, errors: 0 });
+    expect(second.cancel()).toBe(false);
+  });
+
+  it('should cancel tasks by id and look them up', async () => {
+    const queue = createAsyncQueue({ concurrency: 1 });
+    const active = queue.add(createTask(50, 'a'), { id: 'upload-a' });
+    const pending = queue.add(createTask(50, 'b'), { id: 'upload-b', priority: 3 });
+
+    expect(active.id).toBe('upload-a');
+    expect(queue.getTask('upload-a')).toEqual({ id: 'upload-a', status: 'active', priority: 0 });
+    expect(queue.getTask('upload-b')).toEqual({ id: 'upload-b', status: 'pending', priority: 3 });
+    expect(queue.getTask('missing')).toBeUndefined();
+
+    expect(queue.cancel('upload-b')).toBe(true);
+    expect(queue.cancel('missing')).toBe(false);
+    await expect(pending).rejects.toBeInstanceOf(QueueCancelError);
+    expect(queue.getTask('upload-b')).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(50);
+    await expect(active).resolves.toBe('a');
+    expect(queue.getTask('upload-a')).toBeUndefined();
+  });
+
+  it('should abort an active task and free its slot', async () => {
+    const queue = createAsyncQueue({ concurrency: 1 });
+    let signal: AbortSignal | undefined;
+    const active = queue.add(
+      (context) => {
+        signal = context.signal;
+        return new Promise(() => {});
+      },
+      { id: 'hung' }
+    );
+    const next = queue.add(createTask(10, 'next'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.cancel('hung')).toBe(true);
+    await expect(active).rejects.toBeInstanceOf(QueueCancelError);
+    expect(signal?.aborted).toBe(true);
+    expect(queue.getTask(next.id)?.status).toBe('active');
+
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(next).resolves.toBe('next');
+    expect(queue.stats()).toMatchObject({ active: 0, completed: 1, cancelled: 1 });
+  });
+
+  it('should cancel through the caller signal', async () => {
+    const queue = createAsyncQueue({ concurrency: 1 });
+    const pendingController = new AbortController();
+    const activeController = new AbortController();
+    const active = queue.add(createTask(100, 'active'), { signal: activeController.signal });
+    const pending = queue.add(createTask(100, 'pending'), { signal: pendingController.signal });
+
+    pendingController.abort('no longer needed');
+    await expect(pending).rejects.toThrowError(
+      expect.objectContaining({ name: 'QueueCancelError', reason: 'no longer needed' })
+    );
+
+    activeController.abort();
+    await expect(active).rejects.toBeInstanceOf(QueueCancelError);
+    expect(queue.isIdle()).toBe(true);
+    expect(queue.stats().cancelled).toBe(2);
+  });
+
+  it('should reject tasks with an already aborted signal or duplicate id', async () => {
+    const queue = createAsyncQueue({ autoStart: false });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      queue.add(createTask(10, 'a'), { signal: controller.signal })
+    ).rejects.toBeInstanceOf(QueueCancelError);
+    expect(queue.stats()).toMatchObject({ cancelled: 1, total: 1 });
+
+    queue.add(createTask(10, 'b'), { id: 'same' });
+    const duplicate = queue.add(createTask(10, 'c'), { id: 'same' });
+    await expect(duplicate).rejects.toThrow('Task "same" is already in the queue');
+    expect(duplicate.cancel()).toBe(false);
+    expect(queue.getTask('same')?.status).toBe('pending');
+  });
+
+  it('should count tasks removed by clear as cancelled', async () => {
+    const queue = createAsyncQueue({ autoStart: false });
+    const first = queue.add(createTask(10, 'a'));
+    const second = queue.add(createTask(10, 'b'));
+
+    queue.clear();
+    await expect(first).rejects.toThrow('Queue cleared');
+    await expect(second).rejects.toThrow('Queue cleared');
+    expect(queue.stats()).toMatchObject({ pending: 0, cancelled: 2, total: 2 });
+  });
+
+  it('should not hand out generated ids that callers already used', async () => {
+    const queue = createAsyncQueue({ autoStart: false });
+    const custom = queue.add(createTask(10, 'a'), { id: 'task-2' });
+    const first = queue.add(createTask(10, 'b'));
+    const second = queue.add(createTask(10, 'c'));
+
+    expect(first.id).toBe('task-1');
+    expect(second.id).toBe('task-3');
+    queue.resume();
+    await vi.advanceTimersByTimeAsync(30);
+    await expect(Promise.all([custom, first, second])).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('should resolve onDrain when the last pending task is cancelled', async () => {
+    const queue = createAsyncQueue({ autoStart: false });
+    const handle = queue.add(createTask(10, 'a'));
+    handle.catch(() => {});
+    const drained = queue.onDrain();
+
+    handle.cancel();
+    await expect(drained).resolves.toBeUndefined();
+  });
+});
+
 describe('README Examples', () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -563,9 +926,9 @@ describe('README Examples', () => {
     // Mock successful responses with a delay
     mockFetch.mockImplementation(async (url: string) => {
       // Add a small delay to simulate network request
-      await new Promise(resolve => setTimeout(resolve, 10));
+      await new Promise((resolve) => setTimeout(resolve, 10));
       return {
-        json: () => Promise.resolve({ id: url.split('/').pop(), name: 'Test User' })
+        json: () => Promise.resolve({ id: url.split('/').pop(), name: 'Test User' }),
       };
     });
 
@@ -582,7 +945,7 @@ describe('README Examples', () => {
     // Process users with rate limiting
     const processUsers = async (ids: string[]) => {
       const results = await queue.addAll(
-        ids.map(id => async () => {
+        ids.map((id) => async () => {
           const response = await fetch(`/api/users/${id}`);
           return response.json();
         })
@@ -599,7 +962,11 @@ describe('README Examples', () => {
       pending: 2,
       completed: 0,
       errors: 0,
-      total: 4
+      timeouts: 0,
+      cancelled: 0,
+      total: 4,
+      throttled: 0,
+      nextSlotIn: 0,
     });
 
     // Let first two tasks complete
@@ -611,12 +978,16 @@ describe('README Examples', () => {
       pending: 0,
       completed: 2,
       errors: 0,
-      total: 4
+      timeouts: 0,
+      cancelled: 0,
+      total: 4,
+      throttled: 0,
+      nextSlotIn: 0,
     });
 
     // Complete final tasks
     await vi.advanceTimersByTimeAsync(10);
-    
+
     const results = await processPromise;
 
     // Verify results
@@ -624,7 +995,7 @@ describe('README Examples', () => {
       { id: '123', name: 'Test User' },
       { id: '456', name: 'Test User' },
       { id: '789', name: 'Test User' },
-      { id: '012', name: 'Test User' }
+      { id: '012', name: 'Test User' },
     ]);
 
     // Verify final stats
@@ -633,7 +1004,11 @@ describe('README Examples', () => {
       pending: 0,
       completed: 4,
       errors: 0,
-      total: 4
+      timeouts: 0,
+      cancelled: 0,
+      total: 4,
+      throttled: 0,
+      nextSlotIn: 0,
     });
 
     // Verify events were triggered
@@ -642,7 +1017,7 @@ describe('README Examples', () => {
 
     // Verify concurrency was respected
     expect(mockFetch).toHaveBeenCalledTimes(4);
-    
+
     // Restore fetch
     (global as any).fetch = originalFetch;
   });
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRetryBudget } from '../src/retry-budget';
+
+describe('createRetryBudget', () => {
+  let mockTime = 1000;
+  const getTimestamp = () => mockTime;
+
+  beforeEach(() => {
+    mockTime = 1000;
+  });
+
+  it('should allow the minimum retries without any attempts', () => {
+    const budget = createRetryBudget({ ratio: 0, minPerSecond: 1, window: 2000, getTimestamp });
+
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(false);
+    expect(budget.stats()).toEqual({ attempts: 0, retries: 2, available: 0, refused: 1 });
+  });
+
+  it('should earn retries as a ratio of first attempts', () => {
+    const budget = createRetryBudget({ ratio: 0.5, minPerSecond: 0, window: 1000, getTimestamp });
+
+    budget.recordAttempt();
+    expect(budget.canRetry()).toBe(false);
+
+    budget.recordAttempt();
+    expect(budget.stats().available).toBe(1);
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.tryRetry()).toBe(false);
+  });
+
+  it('should forget attempts and retries outside the window', () => {
+    const budget = createRetryBudget({ ratio: 1, minPerSecond: 0, window: 1000, getTimestamp });
+
+    budget.recordAttempt();
+    expect(budget.tryRetry()).toBe(true);
+    expect(budget.canRetry()).toBe(false);
+
+    mockTime += 1000;
+    expect(budget.stats()).toMatchObject({ attempts: 0, retries: 0, available: 0 });
+
+    budget.recordAttempt();
+    expect(budget.tryRetry()).toBe(true);
+  });
+
+  it('should keep a bounded history however many attempts are recorded', () => {
+    const budget = createRetryBudget({ ratio: 0.1, minPerSecond: 0, window: 1000, getTimestamp });
+
+    for (let i = 0; i < 5000; i++) {
+      budget.recordAttempt();
+      mockTime += 1;
+    }
+
+    // Only the last second of attempts counts, bucketed in tenths of the window
+    expect(budget.stats().attempts).toBeGreaterThanOrEqual(900);
+    expect(budget.stats().attempts).toBeLessThanOrEqual(1000);
+  });
+
+  it('should reset its history', () => {
+    const budget = createRetryBudget({ ratio: 0, minPerSecond: 1, window: 1000, getTimestamp });
+
+    budget.tryRetry();
+    budget.tryRetry();
+    budget.reset();
+
+    expect(budget.stats()).toEqual({ attempts: 0, retries: 0, available: 1, refused: 0 });
+  });
+});
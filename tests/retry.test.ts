@@ -1,5 +1,24 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createAsyncRetry, asyncRetry, RetryError, RetryOptions, RetryStrategies } from '../src/retry';
+import {
+  combineStrategies,
+  createAsyncRetry,
+  asyncRetry,
+  AttemptTimeoutError,
+  getErrorCode,
+  getErrorStatus,
+  getRetryAfter,
+  not,
+  RetryContext,
+  RetryDelays,
+  RetryError,
+  RetryOptions,
+  RetryResultError,
+  RetryStrategies,
+  retryable,
+  withRetry,
+} from '../src/retry';
+import { createCircuitBreaker, CircuitOpenError } from '../src/circuit-breaker';
+import { createRetryBudget } from '../src/retry-budget';
 
 process.on('unhandledRejection', (reason, promise) => {
   console.error('Unhandled Rejection at:', promise, 'reason:', reason);
@@ -286,6 +305,26 @@ describe('asyncRetry', () => {
     expect(operation).toHaveBeenCalledTimes(2);
   });
 
+  it('should use the configured backoff type and jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const operation = createFailingOperation(3, 'Success');
+
+    const promise = asyncRetry(operation, {
+      retries: 3,
+      minTimeout: 100,
+      backoff: 'fibonacci',
+      jitter: 'full',
+    });
+
+    // Fibonacci 100, 100, 200 with full jitter at 0.5: 50, 50, 100
+    await vi.advanceTimersByTimeAsync(50);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(operation).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(promise).resolves.toBe('Success');
+  });
+
   it('should handle errors in onRetry callback gracefully', async () => {
     const operation = createFailingOperation(2, 'Success');
     const onRetry = vi.fn().mockRejectedValue(new Error('Callback failed')); // Simulate failing callback
@@ -304,6 +343,624 @@ describe('asyncRetry', () => {
 
     consoleErrorSpy.mockRestore();
   });
+
+  describe('with a circuit breaker', () => {
+    it('should stop retrying as soon as the circuit opens', async () => {
+      const circuitBreaker = createCircuitBreaker({ failureThreshold: 2 });
+      const operation = createFailingOperation(10, 'Success', 'Service down');
+
+      const onRetry = vi.fn();
+      const startedAt = Date.now();
+
+      const promise = asyncRetry(operation, {
+        retries: 5,
+        minTimeout: 1000,
+        jitter: false,
+        circuitBreaker,
+        onRetry,
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({
+          name: 'RetryError',
+          attempts: 2,
+          reason: 'circuit-open',
+          originalError: expect.objectContaining({ message: 'Service down' }),
+        })
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+
+      // No backoff after the failure that opened the circuit
+      expect(Date.now() - startedAt).toBe(1000);
+      expect(vi.getTimerCount()).toBe(0);
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(circuitBreaker.state()).toBe('open');
+    });
+
+    it('should not count an aborted attempt against the circuit', async () => {
+      const circuitBreaker = createCircuitBreaker({ failureThreshold: 1 });
+      const controller = new AbortController();
+
+      const promise = asyncRetry(() => new Promise<string>(() => {}), {
+        abortSignal: controller.signal,
+        circuitBreaker,
+      });
+      const assertion = expect(promise).rejects.toThrow('Retry operation aborted');
+      controller.abort();
+      await assertion;
+
+      expect(circuitBreaker.state()).toBe('closed');
+      expect(circuitBreaker.stats().failures).toBe(0);
+    });
+
+    it('should not call the operation when the circuit is already open', async () => {
+      const circuitBreaker = createCircuitBreaker();
+      circuitBreaker.open();
+      const operation = vi.fn().mockResolvedValue('Success');
+      const shouldRetry = vi.fn(() => true);
+
+      await expect(asyncRetry(operation, { circuitBreaker, shouldRetry })).rejects.toThrow(
+        'Failed after 1 attempt(s): Circuit breaker is open'
+      );
+      expect(operation).not.toHaveBeenCalled();
+      expect(shouldRetry).not.toHaveBeenCalled();
+    });
+
+    it('should share the breaker through createAsyncRetry defaults', async () => {
+      const circuitBreaker = createCircuitBreaker({ failureThreshold: 1 });
+      const retry = createAsyncRetry({ retries: 2, minTimeout: 10, circuitBreaker });
+
+      const first = expect(retry(() => Promise.reject(new Error('Service down')))).rejects.toThrow(
+        RetryError
+      );
+      await vi.runAllTimersAsync();
+      await first;
+
+      const operation = vi.fn().mockResolvedValue('Success');
+      await expect(retry(operation)).rejects.toThrow(RetryError);
+      expect(operation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('attempt context', () => {
+    it('should pass the attempt number and a signal to the operation', async () => {
+      const operation = vi.fn(async ({ attempt }: RetryContext) => {
+        if (attempt < 2) throw new Error('Not yet');
+        return attempt;
+      });
+
+      const promise = asyncRetry(operation, { minTimeout: 10, jitter: false });
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(promise).resolves.toBe(2);
+      expect(operation).toHaveBeenNthCalledWith(1, {
+        attempt: 1,
+        signal: expect.any(AbortSignal),
+      });
+      expect(operation).toHaveBeenNthCalledWith(2, {
+        attempt: 2,
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it('should abort and retry an attempt that exceeds attemptTimeout', async () => {
+      const signals: AbortSignal[] = [];
+      const operation = vi.fn(({ attempt, signal }: RetryContext) => {
+        signals.push(signal);
+        // The first attempt hangs and ignores its signal
+        return attempt === 1 ? new Promise<string>(() => {}) : Promise.resolve('Success');
+      });
+      const onRetry = vi.fn();
+
+      const promise = asyncRetry(operation, {
+        attemptTimeout: 100,
+        minTimeout: 10,
+        jitter: false,
+        onRetry,
+      });
+      await vi.advanceTimersByTimeAsync(100);
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[0].reason).toBeInstanceOf(AttemptTimeoutError);
+      expect(onRetry).toHaveBeenCalledWith(expect.any(AttemptTimeoutError), 1);
+
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(promise).resolves.toBe('Success');
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    it('should report attempt timeouts on the final RetryError', async () => {
+      const operation = vi.fn(() => new Promise<string>(() => {}));
+
+      const promise = asyncRetry(operation, { retries: 1, attemptTimeout: 50, minTimeout: 10 });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({
+          name: 'RetryError',
+          attempts: 2,
+          originalError: expect.objectContaining({ name: 'AttemptTimeoutError', timeout: 50 }),
+        })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it('should abort the running attempt when the outer signal aborts', async () => {
+      const controller = new AbortController();
+      let attemptSignal: AbortSignal | undefined;
+      const operation = vi.fn(({ signal }: RetryContext) => {
+        attemptSignal = signal;
+        return new Promise<string>(() => {});
+      });
+
+      const promise = asyncRetry(operation, { abortSignal: controller.signal });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      await expect(promise).rejects.toThrow('Retry operation aborted');
+      expect(attemptSignal?.aborted).toBe(true);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('server-hinted delays', () => {
+    beforeEach(() => {
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    });
+
+    const rateLimited = (props: Record<string, unknown>) =>
+      Object.assign(new Error('429 Too Many Requests'), props);
+
+    it('should read Retry-After from errors', () => {
+      expect(getRetryAfter(rateLimited({ retryAfter: 2 }))).toBe(2000);
+      expect(getRetryAfter(rateLimited({ headers: { 'retry-after': '3' } }))).toBe(3000);
+      expect(getRetryAfter(rateLimited({ headers: new Headers({ 'Retry-After': '1.5' }) }))).toBe(
+        1500
+      );
+      expect(
+        getRetryAfter(
+          rateLimited({ response: { headers: { 'Retry-After': 'Wed, 01 Jan 2025 00:00:05 GMT' } } })
+        )
+      ).toBe(5000);
+      expect(getRetryAfter(rateLimited({ retryAfter: new Date('2024-12-31T00:00:00Z') }))).toBe(0);
+      expect(getRetryAfter(rateLimited({ headers: { 'retry-after': 'soon' } }))).toBeUndefined();
+      expect(getRetryAfter(new Error('No hint'))).toBeUndefined();
+      expect(getRetryAfter(undefined)).toBeUndefined();
+    });
+
+    it('should wait for the delay returned by getDelay', async () => {
+      const operation = createFailingOperation(1, 'Success');
+      const getDelay = vi.fn(() => 500);
+
+      const promise = asyncRetry(operation, { minTimeout: 10, jitter: false, getDelay });
+      await vi.advanceTimersByTimeAsync(499);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(getDelay).toHaveBeenCalledWith(expect.any(Error), 1, 10, expect.any(Number));
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toBe('Success');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the computed delay when getDelay returns undefined', async () => {
+      const operation = createFailingOperation(1, 'Success');
+
+      const promise = asyncRetry(operation, {
+        minTimeout: 10,
+        jitter: false,
+        getDelay: async () => undefined,
+      });
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(promise).resolves.toBe('Success');
+    });
+
+    it('should honor Retry-After up to maxTimeout', async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(rateLimited({ retryAfter: 2 }))
+        .mockRejectedValueOnce(rateLimited({ headers: { 'retry-after': '60' } }))
+        .mockResolvedValue('Success');
+
+      const promise = asyncRetry(operation, {
+        minTimeout: 10,
+        maxTimeout: 5000,
+        getDelay: RetryDelays.RETRY_AFTER,
+      });
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(operation).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(operation).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(5000); // Clamped from 60s
+      await expect(promise).resolves.toBe('Success');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('with a retry budget', () => {
+    it('should stop retrying once the shared budget is spent', async () => {
+      const budget = createRetryBudget({ ratio: 0, minPerSecond: 0.1, window: 10000 });
+      const retry = createAsyncRetry({ retries: 3, minTimeout: 10, budget });
+
+      const first = createFailingOperation(10, 'Success');
+      const firstResult = expect(retry(first)).rejects.toThrowError(
+        expect.objectContaining({ name: 'RetryError', attempts: 2, reason: 'budget-exhausted' })
+      );
+      await vi.runAllTimersAsync();
+      await firstResult;
+      expect(first).toHaveBeenCalledTimes(2); // One retry allowed by the budget
+
+      const second = createFailingOperation(10, 'Success');
+      const secondResult = expect(retry(second)).rejects.toThrowError(
+        expect.objectContaining({ attempts: 1, reason: 'budget-exhausted' })
+      );
+      await vi.runAllTimersAsync();
+      await secondResult;
+      expect(budget.stats()).toMatchObject({ attempts: 2, retries: 1, refused: 2 });
+    });
+
+    it('should not spend the budget on errors that are not retried', async () => {
+      const budget = createRetryBudget({ ratio: 0, minPerSecond: 0.1, window: 10000 });
+
+      await expect(
+        asyncRetry(() => Promise.reject(new Error('Bad request')), {
+          budget,
+          shouldRetry: () => false,
+        })
+      ).rejects.toThrowError(expect.objectContaining({ reason: 'not-retryable' }));
+      expect(budget.stats()).toMatchObject({ retries: 0, available: 1 });
+    });
+
+    it('should report exhausted retries by default', async () => {
+      const promise = asyncRetry(() => Promise.reject(new Error('Down')), {
+        retries: 1,
+        minTimeout: 10,
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({ reason: 'retries-exhausted' })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+  });
+
+  describe('attempt history', () => {
+    beforeEach(() => {
+      vi.setSystemTime(1000);
+    });
+
+    it('should record every failed attempt on RetryError', async () => {
+      const timeout = new Error('Timed out');
+      const serverError = Object.assign(new Error('500 Internal Server Error'), { status: 500 });
+      const operation = vi
+        .fn()
+        .mockImplementationOnce(
+          () => new Promise((_, reject) => setTimeout(() => reject(timeout), 30))
+        )
+        .mockRejectedValueOnce(serverError);
+
+      const promise = asyncRetry(operation, { retries: 1, minTimeout: 10, jitter: false });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({
+          attempts: 2,
+          errors: [timeout, serverError],
+          history: [
+            { attempt: 1, error: timeout, startedAt: 1000, duration: 30, delay: 10 },
+            { attempt: 2, error: serverError, startedAt: 1040, duration: 0 },
+          ],
+        })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it('should call onAttempt after each attempt and onGiveUp before failing', async () => {
+      const onAttempt = vi.fn();
+      const onGiveUp = vi.fn();
+
+      const failing = asyncRetry(() => Promise.reject(new Error('Down')), {
+        retries: 1,
+        minTimeout: 10,
+        onAttempt,
+        onGiveUp,
+      });
+      const assertion = expect(failing).rejects.toThrow(RetryError);
+      await vi.runAllTimersAsync();
+      await assertion;
+
+      expect(onAttempt).toHaveBeenCalledTimes(2);
+      expect(onAttempt).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ attempt: 1, error: expect.any(Error) })
+      );
+      expect(onGiveUp).toHaveBeenCalledTimes(1);
+      expect(onGiveUp.mock.calls[0][0]).toBeInstanceOf(RetryError);
+      expect(onGiveUp.mock.calls[0][0].history).toHaveLength(2);
+
+      onAttempt.mockClear();
+      onGiveUp.mockClear();
+      await expect(asyncRetry(async () => 'ok', { onAttempt, onGiveUp })).resolves.toBe('ok');
+      expect(onAttempt).toHaveBeenCalledWith({ attempt: 1, startedAt: Date.now(), duration: 0 });
+      expect(onGiveUp).not.toHaveBeenCalled();
+    });
+
+    it('should not let hook errors interrupt retries', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const operation = createFailingOperation(1, 'Success');
+
+      const promise = asyncRetry(operation, {
+        minTimeout: 10,
+        onAttempt: () => {
+          throw new Error('Hook failed');
+        },
+      });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('Success');
+      expect(consoleSpy).toHaveBeenCalledWith('Error in retry callback:', expect.any(Error));
+    });
+  });
+
+  describe('deadlines', () => {
+    beforeEach(() => {
+      vi.setSystemTime(0);
+    });
+
+    it('should shorten the final sleep and stop at maxElapsedTime', async () => {
+      const operation = vi.fn(() => Promise.reject(new Error('Down')));
+
+      // Delays would be 100, 200, 400, 800, ...
+      const promise = asyncRetry(operation, {
+        retries: 10,
+        minTimeout: 100,
+        jitter: false,
+        maxElapsedTime: 500,
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({ name: 'RetryError', reason: 'deadline', attempts: 4 })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+
+      const error = await promise.catch((e) => e);
+      expect(error.history.map((entry: { delay?: number }) => entry.delay)).toEqual([
+        100,
+        200,
+        200, // Shortened from 400 to fit the remaining budget
+        undefined,
+      ]);
+      expect(Date.now()).toBe(500);
+    });
+
+    it('should give up when an attempt runs past the deadline', async () => {
+      const operation = vi.fn(
+        () => new Promise<string>((_, reject) => setTimeout(() => reject(new Error('Slow')), 300))
+      );
+
+      const promise = asyncRetry(operation, {
+        retries: 5,
+        minTimeout: 10,
+        deadline: new Date(250),
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({ reason: 'deadline', attempts: 1 })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report non-retryable errors that arrive after the deadline', async () => {
+      const operation = vi.fn(
+        () => new Promise<string>((_, reject) => setTimeout(() => reject(new Error('Fatal')), 300))
+      );
+
+      const promise = asyncRetry(operation, {
+        retries: 5,
+        minTimeout: 10,
+        deadline: new Date(250),
+        shouldRetry: () => false,
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({ reason: 'not-retryable', attempts: 1 })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it('should prefer the retry count when it runs out first', async () => {
+      const promise = asyncRetry(() => Promise.reject(new Error('Down')), {
+        retries: 1,
+        minTimeout: 10,
+        maxElapsedTime: 30000,
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({ reason: 'retries-exhausted', attempts: 2 })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+  });
+
+  describe('withRetry and @retryable', () => {
+    it('should retry a wrapped function with its original arguments', async () => {
+      let calls = 0;
+      const getUser = withRetry(
+        async (id: string, includePosts: boolean) => {
+          calls++;
+          if (calls < 2) throw new Error('Temporary failure');
+          return { id, includePosts };
+        },
+        { minTimeout: 10 }
+      );
+
+      const promise = getUser('42', true);
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual({ id: '42', includePosts: true });
+      expect(calls).toBe(2);
+    });
+
+    it('should reject with RetryError once a wrapped function runs out of retries', async () => {
+      const fetchData = withRetry(() => Promise.reject(new Error('Down')), {
+        retries: 1,
+        minTimeout: 10,
+      });
+
+      const assertion = expect(fetchData()).rejects.toThrowError(
+        expect.objectContaining({ name: 'RetryError', attempts: 2 })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it('should retry decorated methods with their instance', async () => {
+      class UserService {
+        calls = 0;
+
+        constructor(private prefix: string) {}
+
+        @retryable({ retries: 2, minTimeout: 10 })
+        async getName(id: number) {
+          this.calls++;
+          if (this.calls < 3) throw new Error('Temporary failure');
+          return `${this.prefix}-${id}`;
+        }
+      }
+
+      const service = new UserService('user');
+      const promise = service.getName(7);
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('user-7');
+      expect(service.calls).toBe(3);
+    });
+  });
+
+  describe('retryOnResult', () => {
+    it('should retry until the result is accepted', async () => {
+      const operation = vi
+        .fn()
+        .mockResolvedValueOnce({ status: 'pending' })
+        .mockResolvedValueOnce({ status: 'pending' })
+        .mockResolvedValue({ status: 'done' });
+      const retryOnResult = vi.fn((result: { status: string }) => result.status === 'pending');
+
+      const promise = asyncRetry(operation, { minTimeout: 10, retryOnResult });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual({ status: 'done' });
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(retryOnResult).toHaveBeenNthCalledWith(2, { status: 'pending' }, 2);
+    });
+
+    it('should expose the last result on RetryError when retries run out', async () => {
+      let page = 0;
+      const operation = vi.fn(async () => ({ page: ++page, items: [] as string[] }));
+
+      const promise = asyncRetry(operation, {
+        retries: 2,
+        minTimeout: 10,
+        retryOnResult: async (result) => result.items.length === 0,
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        expect.objectContaining({
+          name: 'RetryError',
+          attempts: 3,
+          lastResult: { page: 3, items: [] },
+          originalError: expect.any(RetryResultError),
+        })
+      );
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it('should not pass rejected results through shouldRetry', async () => {
+      const operation = vi.fn().mockResolvedValueOnce(null).mockResolvedValue('ready');
+      const shouldRetry = vi.fn(() => false);
+
+      const promise = asyncRetry(operation, {
+        minTimeout: 10,
+        shouldRetry,
+        retryOnResult: (result) => result === null,
+      });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('ready');
+      expect(shouldRetry).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('RetryStrategies for HTTP errors', () => {
+  const httpError = (props: Record<string, unknown>, message = 'Request failed') =>
+    Object.assign(new Error(message), props);
+
+  it('should read status and code from common error shapes', () => {
+    expect(getErrorStatus(httpError({ status: 503 }))).toBe(503);
+    expect(getErrorStatus(httpError({ statusCode: 502 }))).toBe(502);
+    expect(getErrorStatus(httpError({ response: { status: 429 } }))).toBe(429);
+    expect(getErrorStatus(new Error('500 Internal Server Error'))).toBeUndefined();
+
+    expect(getErrorCode(httpError({ code: 'ECONNRESET' }))).toBe('ECONNRESET');
+    expect(
+      getErrorCode(new TypeError('fetch failed', { cause: httpError({ code: 'EAI_AGAIN' }) }))
+    ).toBe('EAI_AGAIN');
+  });
+
+  it('should detect server errors from status properties', () => {
+    expect(RetryStrategies.SERVER_ERRORS(httpError({ status: 503 }))).toBe(true);
+    expect(RetryStrategies.SERVER_ERRORS(httpError({ response: { status: 500 } }))).toBe(true);
+    expect(RetryStrategies.SERVER_ERRORS(httpError({ statusCode: 404 }, '500 in message'))).toBe(
+      false
+    );
+    expect(RetryStrategies.SERVER_ERRORS(new Error('502 Bad Gateway'))).toBe(true);
+  });
+
+  it('should detect network errors from error codes', () => {
+    expect(RetryStrategies.NETWORK_ONLY(httpError({ code: 'ETIMEDOUT' }))).toBe(true);
+    expect(RetryStrategies.NETWORK_ONLY(httpError({ code: 'ERR_INVALID_URL' }))).toBe(false);
+    expect(
+      RetryStrategies.NETWORK_ONLY(
+        new TypeError('fetch failed', { cause: httpError({ code: 'ECONNRESET' }) })
+      )
+    ).toBe(true);
+    expect(
+      RetryStrategies.NETWORK_ONLY(httpError({ name: 'AbortError', code: 'ECONNRESET' }))
+    ).toBe(false);
+  });
+
+  it('should retry transient statuses and network errors', () => {
+    expect(RetryStrategies.TRANSIENT(httpError({ status: 429 }))).toBe(true);
+    expect(RetryStrategies.TRANSIENT(httpError({ status: 503 }))).toBe(true);
+    expect(RetryStrategies.TRANSIENT(httpError({ code: 'EAI_AGAIN' }))).toBe(true);
+    expect(RetryStrategies.TRANSIENT(httpError({ status: 501 }))).toBe(false);
+    expect(RetryStrategies.TRANSIENT(httpError({ status: 400 }))).toBe(false);
+  });
+
+  it('should only allow idempotent methods', () => {
+    expect(RetryStrategies.IDEMPOTENT_ONLY(httpError({ config: { method: 'get' } }))).toBe(true);
+    expect(RetryStrategies.IDEMPOTENT_ONLY(httpError({ method: 'PUT' }))).toBe(true);
+    expect(RetryStrategies.IDEMPOTENT_ONLY(httpError({ config: { method: 'post' } }))).toBe(false);
+    expect(RetryStrategies.IDEMPOTENT_ONLY(httpError({ options: { method: 'PATCH' } }))).toBe(
+      false
+    );
+    expect(RetryStrategies.IDEMPOTENT_ONLY(new Error('No method'))).toBe(true);
+  });
+
+  it('should compose strategies with combineStrategies and not', () => {
+    const shouldRetry = combineStrategies(
+      RetryStrategies.TRANSIENT,
+      RetryStrategies.IDEMPOTENT_ONLY,
+      not((error) => getErrorStatus(error) === 429)
+    );
+
+    expect(shouldRetry(httpError({ status: 503, method: 'GET' }))).toBe(true);
+    expect(shouldRetry(httpError({ status: 503, method: 'POST' }))).toBe(false);
+    expect(shouldRetry(httpError({ status: 429, method: 'GET' }))).toBe(false);
+    expect(shouldRetry(httpError({ status: 404, method: 'GET' }))).toBe(false);
+  });
 });
 
 describe('README Examples', () => {
@@ -333,7 +990,7 @@ describe('README Examples', () => {
         throw new Error('Network error');
       }
       return {
-        json: () => Promise.resolve({ data: 'success' })
+        json: () => Promise.resolve({ data: 'success' }),
       };
     });
 
@@ -348,9 +1005,9 @@ describe('README Examples', () => {
       maxTimeout: 5000,
       onRetry: (error, attempt) => {
         console.error(`Attempt ${attempt} failed:`, error);
-      }
+      },
     });
-    
+
     // First attempt fails immediately
     await vi.advanceTimersByTimeAsync(1);
     expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -362,7 +1019,7 @@ describe('README Examples', () => {
     // Third attempt succeeds
     await vi.advanceTimersByTimeAsync(2000);
     const result = await promise;
-    
+
     expect(mockFetch).toHaveBeenCalledTimes(3);
     expect(result).toEqual({ data: 'success' });
   });